@@ -0,0 +1,134 @@
+import Link from "next/link";
+import { AuthOrigins } from "@/features/auth/auth-origins";
+import { AvatarSettings } from "@/features/auth/avatar-settings";
+import { ChangeEmailForm } from "@/features/auth/change-email-form";
+import { ChangePasswordForm } from "@/features/auth/change-password-form";
+import { ConnectedAccounts } from "@/features/auth/connected-accounts";
+import { DeleteAccount } from "@/features/auth/delete-account";
+import { MfaSettings } from "@/features/auth/mfa-settings";
+import { ProfileForm } from "@/features/auth/profile-form";
+import { SignInHistory } from "@/features/auth/sign-in-history";
+import { SignOutEverywhere } from "@/features/auth/sign-out-everywhere";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+export default function AccountPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 px-6 py-16">
+        <div className="flex items-center justify-between">
+          <h1 className="font-bold text-3xl text-zinc-900 tracking-tight dark:text-zinc-50">
+            Account
+          </h1>
+          <Link
+            className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+            href="/"
+          >
+            Back home
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>How other people see you</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AvatarSettings />
+            <ProfileForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email</CardTitle>
+            <CardDescription>
+              Changing your email signs you out of every device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangeEmailForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Password</CardTitle>
+            <CardDescription>
+              Changing your password signs out your other devices
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Two-factor authentication</CardTitle>
+            <CardDescription>
+              Require a second step when signing in with your password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MfaSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Connected accounts</CardTitle>
+            <CardDescription>
+              Link a provider to sign in without a password
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ConnectedAccounts />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent sign-ins</CardTitle>
+            <CardDescription>
+              The last 10 times someone signed in to your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SignInHistory />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Known devices</CardTitle>
+            <CardDescription>
+              Signing in from a new device sends you an alert email
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AuthOrigins />
+            <SignOutEverywhere />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delete account</CardTitle>
+            <CardDescription>
+              Permanently remove your account and everything in it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DeleteAccount />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
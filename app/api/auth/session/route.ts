@@ -0,0 +1,13 @@
+import { getTokenExpiry } from "@/shared/auth/cookie";
+import { createServerClient, getCurrentUser } from "@/shared/auth/server";
+
+/**
+ * Signed-in user snapshot for the browser AuthProvider
+ * The httpOnly pb_auth cookie is only readable here, on the server
+ */
+export async function GET() {
+  const user = await getCurrentUser();
+  const pb = await createServerClient();
+  const expiresAt = user ? getTokenExpiry(pb.authStore.token) : null;
+  return Response.json({ user, expiresAt });
+}
@@ -0,0 +1,69 @@
+import { getCurrentUser } from "@/shared/auth/server";
+import { getFileByKey } from "@/shared/files/server";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  contentDisposition,
+  objectResponse,
+  parseRange,
+  rangeNotSatisfiable,
+} from "@/shared/storage/http";
+import { storageDriver } from "@/shared/storage/storage-driver";
+
+interface Context {
+  params: Promise<{ key: string[] }>;
+}
+
+// Signed URLs handed out by redirects only need to outlive the redirect
+const REDIRECT_EXPIRES_IN = 60;
+
+/**
+ * Serve an uploaded file to its owner and members of its organization
+ * Redirects to a short-lived signed URL by default. `?stream` streams
+ * the object through the app instead, with Range support for seeking in
+ * videos, and `?download` saves it instead of opening it.
+ */
+export async function GET(request: Request, { params }: Context) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return Response.json({ error: "You must be signed in" }, { status: 401 });
+  }
+
+  const key = (await params).key.join("/");
+  const file = await getFileByKey(key);
+  if (!file) {
+    return Response.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const disposition = contentDisposition(
+    searchParams.has("download") ? "attachment" : "inline",
+    file.name
+  );
+  const contentType = file.contentType || "application/octet-stream";
+
+  try {
+    if (!searchParams.has("stream")) {
+      const url = await storageDriver.signedUrl(key, {
+        expiresIn: REDIRECT_EXPIRES_IN,
+        contentDisposition: disposition,
+        contentType,
+      });
+      return Response.redirect(url, 307);
+    }
+
+    const range = parseRange(request.headers.get("range"), file.size);
+    if (range === "unsatisfiable") {
+      return rangeNotSatisfiable(file.size);
+    }
+    const stored = await storageDriver.stream(key, range ?? undefined);
+    if (!stored) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+    return objectResponse(stored, {
+      contentDisposition: disposition,
+      contentType,
+    });
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import {
+  getActiveMembership,
+  getMemberships,
+} from "@/shared/organizations/server";
+
+/**
+ * Organizations of the signed-in user for the browser
+ * The active organization lives in the httpOnly active_org cookie
+ */
+export async function GET() {
+  const [memberships, active] = await Promise.all([
+    getMemberships(),
+    getActiveMembership(),
+  ]);
+  return Response.json({
+    memberships,
+    activeOrganizationId: active?.organization ?? null,
+  });
+}
@@ -0,0 +1,91 @@
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  objectResponse,
+  parseRange,
+  rangeNotSatisfiable,
+} from "@/shared/storage/http";
+import { verifySignedUrl } from "@/shared/storage/signed-url";
+import { storageDriver } from "@/shared/storage/storage-driver";
+
+interface Context {
+  params: Promise<{ key: string[] }>;
+}
+
+/**
+ * Resolve the object key and check the URL signature
+ * R2 serves its own presigned URLs, so the route only exists for the
+ * local and pocketbase drivers
+ */
+async function verify(
+  request: Request,
+  { params }: Context,
+  method: "GET" | "PUT"
+) {
+  if (storageDriver.name === "s3") {
+    return null;
+  }
+  const key = (await params).key.join("/");
+  const signed = verifySignedUrl(
+    key,
+    method,
+    new URL(request.url).searchParams
+  );
+  return signed ? { key, ...signed } : null;
+}
+
+/**
+ * Download an object with a URL from `storageDriver.signedUrl`
+ */
+export async function GET(request: Request, context: Context) {
+  const signed = await verify(request, context, "GET");
+  if (!signed) {
+    return Response.json({ error: "Invalid or expired URL" }, { status: 403 });
+  }
+
+  try {
+    const object = await storageDriver.head(signed.key);
+    if (!object) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+    const range = parseRange(request.headers.get("range"), object.size);
+    if (range === "unsatisfiable") {
+      return rangeNotSatisfiable(object.size);
+    }
+    const stored = await storageDriver.stream(signed.key, range ?? undefined);
+    if (!stored) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+    return objectResponse(stored, signed);
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
+
+/**
+ * Upload an object with a URL from `storageDriver.signedUrl`, with the
+ * signed Content-Type like S3 presigned PUTs
+ */
+export async function PUT(request: Request, context: Context) {
+  const signed = await verify(request, context, "PUT");
+  if (!signed) {
+    return Response.json({ error: "Invalid or expired URL" }, { status: 403 });
+  }
+  const contentType = request.headers.get("content-type");
+  if (signed.contentType && contentType !== signed.contentType) {
+    return Response.json(
+      { error: "Content-Type does not match the signed URL" },
+      { status: 400 }
+    );
+  }
+  try {
+    await storageDriver.put(
+      signed.key,
+      // Empty files have no body
+      request.body ?? new Uint8Array(),
+      contentType ?? undefined
+    );
+    return new Response(null, { status: 200 });
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { getCurrentUser } from "@/shared/auth/server";
+import { recordStoredFile } from "@/shared/files/server";
+import { multipartUploadInfoSchema } from "@/shared/files/uploads";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { completeMultipartSchema } from "@/shared/storage/multipart";
+import { r2 } from "@/shared/storage/r2-client";
+import { isOwnUploadKey } from "@/shared/storage/upload-keys";
+
+interface Context {
+  params: Promise<{ uploadId: string }>;
+}
+
+const completeSchema = completeMultipartSchema.extend({
+  file: multipartUploadInfoSchema,
+});
+
+/**
+ * Complete a multipart upload of the signed-in user and record it in the
+ * `files` collection
+ * Body: { key, parts: [{ partNumber, etag }], file: { name, type, size } }
+ */
+export async function POST(request: Request, { params }: Context) {
+  const { uploadId } = await params;
+  const parsed = completeSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid upload" }, { status: 400 });
+  }
+
+  const { key, parts, file } = parsed.data;
+  const user = await getCurrentUser();
+  if (!(user && isOwnUploadKey(user.id, key))) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  try {
+    await r2.multipart.complete(key, uploadId, parts);
+    // Resumed uploads can change the size, the stored object is checked
+    const result = await recordStoredFile(
+      user.id,
+      key,
+      file,
+      multipartUploadInfoSchema
+    );
+    if ("error" in result) {
+      return Response.json({ error: result.error }, { status: 400 });
+    }
+    return Response.json({ key, file: result.file });
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { getCurrentUser } from "@/shared/auth/server";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { resumeMultipartSchema } from "@/shared/storage/multipart";
+import { r2 } from "@/shared/storage/r2-client";
+import { isOwnUploadKey } from "@/shared/storage/upload-keys";
+
+interface Context {
+  params: Promise<{ uploadId: string }>;
+}
+
+/**
+ * Resume a multipart upload of the signed-in user
+ * Returns the stored parts and fresh URLs for the missing ones
+ * Query: ?key=<object key>&size=<file size>
+ */
+export async function GET(request: Request, { params }: Context) {
+  const { uploadId } = await params;
+  const { searchParams } = new URL(request.url);
+  const parsed = resumeMultipartSchema.safeParse({
+    key: searchParams.get("key"),
+    size: searchParams.get("size"),
+  });
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid upload" }, { status: 400 });
+  }
+
+  const user = await getCurrentUser();
+  if (!(user && isOwnUploadKey(user.id, parsed.data.key))) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  try {
+    const { key, size } = parsed.data;
+    return Response.json(await r2.multipart.getSession(key, uploadId, size));
+  } catch (err) {
+    // The upload was completed, aborted or cleaned up
+    return Response.json({ error: toErrorMessage(err) }, { status: 404 });
+  }
+}
+
+/**
+ * Abort a multipart upload of the signed-in user and delete its parts
+ * Query: ?key=<object key>
+ */
+export async function DELETE(request: Request, { params }: Context) {
+  const { uploadId } = await params;
+  const key = new URL(request.url).searchParams.get("key") ?? "";
+
+  const user = await getCurrentUser();
+  if (!(user && isOwnUploadKey(user.id, key))) {
+    return Response.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  try {
+    await r2.multipart.abort(key, uploadId);
+    return Response.json({ success: true });
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
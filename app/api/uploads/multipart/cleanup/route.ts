@@ -0,0 +1,24 @@
+import { serverConfig } from "@/shared/config/server";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { r2 } from "@/shared/storage/r2-client";
+
+/**
+ * Abort multipart uploads abandoned for more than a day
+ * Call from a scheduler (e.g. Vercel Cron) with `Authorization: Bearer <CRON_SECRET>`
+ */
+export async function GET(request: Request) {
+  const { cronSecret } = serverConfig;
+  if (
+    !cronSecret ||
+    request.headers.get("authorization") !== `Bearer ${cronSecret}`
+  ) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const aborted = await r2.multipart.cleanup();
+    return Response.json({ aborted });
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { getCurrentUser } from "@/shared/auth/server";
+import { serverConfig } from "@/shared/config/server";
+import { multipartUploadInfoSchema } from "@/shared/files/uploads";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { r2 } from "@/shared/storage/r2-client";
+import { createUploadKey } from "@/shared/storage/upload-keys";
+
+/**
+ * Start a multipart upload for the signed-in user
+ * Body: { name, type, size }, checked against the file upload allowlist
+ * Returns presigned URLs of every part, see multipart-upload.ts
+ */
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return Response.json({ error: "You must be signed in" }, { status: 401 });
+  }
+  // Completed uploads are recorded through the storage driver
+  if (serverConfig.storage.driver !== "s3") {
+    return Response.json(
+      { error: "Multipart uploads need the s3 storage driver" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = multipartUploadInfoSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+  if (!parsed.success) {
+    return Response.json(
+      { error: parsed.error.issues[0].message },
+      { status: 400 }
+    );
+  }
+
+  const { name, type, size } = parsed.data;
+  try {
+    const key = createUploadKey(user.id, name);
+    const uploadId = await r2.multipart.create(key, type);
+    return Response.json(await r2.multipart.getSession(key, uploadId, size));
+  } catch (err) {
+    return Response.json({ error: toErrorMessage(err) }, { status: 500 });
+  }
+}
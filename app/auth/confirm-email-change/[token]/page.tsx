@@ -0,0 +1,44 @@
+import { Suspense } from "react";
+import { ConfirmEmailChangeForm } from "@/features/auth/confirm-email-change-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+interface ConfirmEmailChangePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function ConfirmEmailChangePage({
+  params,
+}: ConfirmEmailChangePageProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">
+            Confirm new email
+          </CardTitle>
+          <CardDescription>
+            Enter your password to finish changing your email
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <ConfirmEmailChangeContent params={params} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+async function ConfirmEmailChangeContent({
+  params,
+}: ConfirmEmailChangePageProps) {
+  const { token } = await params;
+  return <ConfirmEmailChangeForm token={token} />;
+}
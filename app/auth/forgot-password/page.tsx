@@ -0,0 +1,39 @@
+import Link from "next/link";
+import { ForgotPasswordForm } from "@/features/auth/forgot-password-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">Forgot password</CardTitle>
+          <CardDescription>
+            Enter your email and we&apos;ll send you a reset link
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ForgotPasswordForm />
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Remembered it?{" "}
+            <Link
+              className="font-medium text-zinc-900 hover:underline dark:text-zinc-100"
+              href="/auth/sign-in"
+            >
+              Sign in
+            </Link>
+          </p>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Suspense } from "react";
+import { MagicLinkSignIn } from "@/features/auth/magic-link-sign-in";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+interface MagicLinkPageProps {
+  params: Promise<{ otpId: string; code: string }>;
+}
+
+export default function MagicLinkPage({ params }: MagicLinkPageProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">Sign in</CardTitle>
+          <CardDescription>Continue with your magic link</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <MagicLinkContent params={params} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+async function MagicLinkContent({ params }: MagicLinkPageProps) {
+  const { otpId, code } = await params;
+  return <MagicLinkSignIn code={code} otpId={otpId} />;
+}
@@ -0,0 +1,38 @@
+import { Suspense } from "react";
+import { ResetPasswordForm } from "@/features/auth/reset-password-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+interface ResetPasswordPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function ResetPasswordPage({ params }: ResetPasswordPageProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">Reset password</CardTitle>
+          <CardDescription>
+            Choose a new password for your account
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <ResetPasswordContent params={params} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+async function ResetPasswordContent({ params }: ResetPasswordPageProps) {
+  const { token } = await params;
+  return <ResetPasswordForm token={token} />;
+}
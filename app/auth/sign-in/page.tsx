@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { OAuthButtons } from "@/features/auth/oauth-buttons";
 import { SignInForm } from "@/features/auth/sign-in-form";
 import {
   Card,
@@ -19,10 +20,17 @@ export default function SignInPage() {
             Enter your email and password to access your account
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
           <SignInForm />
+          <OAuthButtons />
         </CardContent>
-        <CardFooter className="flex justify-center">
+        <CardFooter className="flex flex-col items-center gap-2">
+          <Link
+            className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+            href="/auth/forgot-password"
+          >
+            Forgot your password?
+          </Link>
           <p className="text-sm text-zinc-600 dark:text-zinc-400">
             Don&apos;t have an account?{" "}
             <Link
@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { OAuthButtons } from "@/features/auth/oauth-buttons";
 import { SignUpForm } from "@/features/auth/sign-up-form";
 import {
   Card,
@@ -19,8 +20,9 @@ export default function SignUpPage() {
             Enter your details to create a new account
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-6">
           <SignUpForm />
+          <OAuthButtons />
         </CardContent>
         <CardFooter className="flex justify-center">
           <p className="text-sm text-zinc-600 dark:text-zinc-400">
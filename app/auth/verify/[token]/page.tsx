@@ -0,0 +1,36 @@
+import { Suspense } from "react";
+import { VerifyEmail } from "@/features/auth/verify-email";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+interface VerifyPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function VerifyPage({ params }: VerifyPageProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">Verify email</CardTitle>
+          <CardDescription>Confirm your email address</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <VerifyContent params={params} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+async function VerifyContent({ params }: VerifyPageProps) {
+  const { token } = await params;
+  return <VerifyEmail token={token} />;
+}
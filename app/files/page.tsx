@@ -0,0 +1,56 @@
+import Link from "next/link";
+import { Dropzone } from "@/features/upload/dropzone";
+import { FilesList } from "@/features/upload/files-list";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+import { RealtimeStatus } from "@/widgets/health-status/realtime-status";
+
+export default function FilesPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 px-6 py-16">
+        <div className="flex items-center justify-between">
+          <h1 className="font-bold text-3xl text-zinc-900 tracking-tight dark:text-zinc-50">
+            Files
+          </h1>
+          <Link
+            className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+            href="/"
+          >
+            Back home
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload</CardTitle>
+            <CardDescription>
+              Files are stored in R2 and shared with your active organization
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Dropzone />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent files</CardTitle>
+            <CardAction>
+              <RealtimeStatus />
+            </CardAction>
+          </CardHeader>
+          <CardContent>
+            <FilesList />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import Link from "next/link";
+import { Suspense } from "react";
+import { AcceptInvitation } from "@/features/organizations/accept-invitation";
+import { getInvitation } from "@/shared/organizations/server";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+
+interface InvitationPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function InvitationPage({ params }: InvitationPageProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 p-4 dark:bg-black">
+      <Card className="w-full max-w-md">
+        <Suspense>
+          <InvitationContent params={params} />
+        </Suspense>
+      </Card>
+    </div>
+  );
+}
+
+async function InvitationContent({ params }: InvitationPageProps) {
+  const { token } = await params;
+  const invitation = await getInvitation(token);
+
+  if (!invitation) {
+    return (
+      <>
+        <CardHeader className="space-y-1">
+          <CardTitle className="font-bold text-2xl">Invitation</CardTitle>
+          <CardDescription>
+            This invitation is invalid or has expired
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link
+            className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+            href="/"
+          >
+            Back home
+          </Link>
+        </CardContent>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <CardHeader className="space-y-1">
+        <CardTitle className="font-bold text-2xl">
+          Join {invitation.expand.organization.name}
+        </CardTitle>
+        <CardDescription>
+          You were invited to join as {invitation.role}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AcceptInvitation token={token} />
+      </CardContent>
+    </>
+  );
+}
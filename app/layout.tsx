@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { SessionExpiredDialog } from "@/features/auth/session-expired-dialog";
 import { Providers } from "@/shared/providers/providers";
 import "./globals.css";
 
@@ -28,7 +29,10 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Providers>{children}</Providers>
+        <Providers>
+          {children}
+          <SessionExpiredDialog />
+        </Providers>
       </body>
     </html>
   );
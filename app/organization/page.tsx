@@ -0,0 +1,24 @@
+import Link from "next/link";
+import { OrganizationSettings } from "@/features/organizations/organization-settings";
+
+export default function OrganizationPage() {
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 px-6 py-16">
+        <div className="flex items-center justify-between">
+          <h1 className="font-bold text-3xl text-zinc-900 tracking-tight dark:text-zinc-50">
+            Organization
+          </h1>
+          <Link
+            className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+            href="/"
+          >
+            Back home
+          </Link>
+        </div>
+
+        <OrganizationSettings />
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import Image from "next/image";
 import { Suspense } from "react";
 import { Button } from "@/shared/ui/button";
+import {
+  AdminAuthStatus,
+  AdminAuthStatusSkeleton,
+} from "@/widgets/health-status/admin-auth-status";
 import { HealthStatus } from "@/widgets/health-status/health-status";
 import { HealthStatusServer } from "@/widgets/health-status/health-status-server";
 import { Tutorial } from "@/widgets/tutorial/tutorial";
@@ -28,6 +32,10 @@ export default function HomePage() {
             <div className="hidden items-center gap-2 sm:flex">
               <HealthStatusServer />
               <span className="text-zinc-300 dark:text-zinc-700">|</span>
+              <Suspense fallback={<AdminAuthStatusSkeleton />}>
+                <AdminAuthStatus />
+              </Suspense>
+              <span className="text-zinc-300 dark:text-zinc-700">|</span>
               <HealthStatus />
             </div>
           </div>
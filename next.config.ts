@@ -1,13 +1,24 @@
 import type { NextConfig } from "next";
+import { loadPublicConfig, loadServerConfig } from "./src/shared/config/env";
+
+// Fail fast on missing or malformed environment variables
+const serverConfig = loadServerConfig();
+loadPublicConfig();
 
 const nextConfig: NextConfig = {
   reactCompiler: true,
   cacheComponents: true,
+  experimental: {
+    serverActions: {
+      // Room for avatar uploads, see src/shared/auth/avatar.ts
+      bodySizeLimit: "3mb",
+    },
+  },
   async rewrites() {
     return [
       {
         source: "/api/pocketbase/:path*",
-        destination: `${process.env.POCKETBASE_URL ?? "http://127.0.0.1:8080"}/:path*`,
+        destination: `${serverConfig.pocketbaseUrl}/:path*`,
       },
     ];
   },
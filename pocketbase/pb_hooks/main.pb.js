@@ -15,11 +15,135 @@ onRecordAfterCreateSuccess((e) => {
   e.next();
 }, "users");
 
-// Example: Log when a user signs in
+// Record sign-ins in login_events for the account page
 onRecordAuthRequest((e) => {
-  // This fires before auth, so we log after e.next()
+  // This fires before auth (and MFA checks), so we log after e.next()
   e.next();
-  if (e.record) {
-    console.log(`User signed in: ${e.record.get("email")}`);
+  // Token refreshes have no auth method
+  if (!(e.record && e.authMethod)) {
+    return;
   }
+  console.log(`User signed in: ${e.record.get("email")}`);
+
+  const event = new Record(e.app.findCollectionByNameOrId("login_events"));
+  event.set("user", e.record.id);
+  event.set("method", e.authMethod);
+  event.set("ip", e.realIP());
+  event.set("userAgent", e.request.header.get("User-Agent"));
+  e.app.save(event);
+}, "users");
+
+// Invalidate every token of the signed-in user
+routerAdd(
+  "POST",
+  "/api/sessions/revoke",
+  (e) => {
+    e.auth.refreshTokenKey();
+    e.app.save(e.auth);
+    return e.noContent(204);
+  },
+  $apis.requireAuth("users")
+);
+
+// The users_mfa migration enables OTP for the MFA second factor, which
+// also allows signing in with a code alone. Only allow that in OTP mode,
+// SIGN_IN_MODE must match the app's NEXT_PUBLIC_SIGN_IN_MODE
+onRecordAuthWithOTPRequest((e) => {
+  const mode = $os.getenv("SIGN_IN_MODE") || "password";
+  // The SDK sends the mfaId option as a query param
+  const info = e.requestInfo();
+  const mfaId = info.query.mfaId || info.body.mfaId;
+  if (mode !== "otp" && !mfaId) {
+    throw new BadRequestError("Sign in with your password first.");
+  }
+  e.next();
+}, "users");
+
+// Point auth emails at the Next.js routes instead of the PocketBase UI
+// NB: handlers can't see top-level variables, so each one reads APP_URL
+onMailerRecordPasswordResetSend((e) => {
+  const appUrl = $os.getenv("APP_URL") || "http://localhost:3000";
+  const link = `${appUrl}/auth/reset-password/${e.meta.token}`;
+  e.message.html = `
+    <p>Hello,</p>
+    <p>Click on the button below to reset your password.</p>
+    <p><a class="btn" href="${link}" target="_blank" rel="noopener">Reset password</a></p>
+    <p><i>If you didn't ask to reset your password, you can ignore this email.</i></p>
+  `;
+  e.next();
+}, "users");
+
+onMailerRecordVerificationSend((e) => {
+  const appUrl = $os.getenv("APP_URL") || "http://localhost:3000";
+  const link = `${appUrl}/auth/verify/${e.meta.token}`;
+  e.message.html = `
+    <p>Hello,</p>
+    <p>Thank you for joining us. Click on the button below to verify your email address.</p>
+    <p><a class="btn" href="${link}" target="_blank" rel="noopener">Verify</a></p>
+  `;
+  e.next();
+}, "users");
+
+onMailerRecordOTPSend((e) => {
+  const appUrl = $os.getenv("APP_URL") || "http://localhost:3000";
+  const link = `${appUrl}/auth/magic-link/${e.meta.otpId}/${e.meta.password}`;
+  e.message.html = `
+    <p>Hello,</p>
+    <p>Your one-time password is: <strong>${e.meta.password}</strong></p>
+    <p>Or sign in directly with this magic link:</p>
+    <p><a class="btn" href="${link}" target="_blank" rel="noopener">Sign in</a></p>
+    <p><i>If you didn't ask for the one-time password, you can ignore this email.</i></p>
+  `;
+  e.next();
 }, "users");
+
+onMailerRecordEmailChangeSend((e) => {
+  const appUrl = $os.getenv("APP_URL") || "http://localhost:3000";
+  const link = `${appUrl}/auth/confirm-email-change/${e.meta.token}`;
+  e.message.html = `
+    <p>Hello,</p>
+    <p>Click on the button below to confirm your new email address.</p>
+    <p><a class="btn" href="${link}" target="_blank" rel="noopener">Confirm new email</a></p>
+    <p><i>If you didn't ask to change your email address, you can ignore this email.</i></p>
+  `;
+  e.next();
+}, "users");
+
+// Make the creator of an organization its owner
+onRecordCreateRequest((e) => {
+  e.next();
+  if (!e.auth || e.auth.collection().name !== "users") {
+    return;
+  }
+  const membership = new Record(e.app.findCollectionByNameOrId("memberships"));
+  membership.set("organization", e.record.id);
+  membership.set("user", e.auth.id);
+  membership.set("role", "owner");
+  e.app.save(membership);
+}, "organizations");
+
+// Email the acceptance link of a new invitation
+onRecordAfterCreateSuccess((e) => {
+  const appUrl = $os.getenv("APP_URL") || "http://localhost:3000";
+  const link = `${appUrl}/invitations/${e.record.get("token")}`;
+  const organization = e.app.findRecordById(
+    "organizations",
+    e.record.get("organization")
+  );
+  const name = organization.get("name").replace(/[<>&"]/g, "");
+  const meta = e.app.settings().meta;
+
+  const message = new MailerMessage({
+    from: { address: meta.senderAddress, name: meta.senderName },
+    to: [{ address: e.record.get("email") }],
+    subject: `You're invited to join ${name}`,
+    html: `
+      <p>Hello,</p>
+      <p>You have been invited to join <strong>${name}</strong>.</p>
+      <p><a class="btn" href="${link}" target="_blank" rel="noopener">Accept invitation</a></p>
+      <p><i>If you weren't expecting this invitation, you can ignore this email.</i></p>
+    `,
+  });
+  e.app.newMailClient().send(message);
+  e.next();
+}, "invitations");
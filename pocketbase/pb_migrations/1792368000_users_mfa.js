@@ -0,0 +1,32 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Opt-in MFA: users with `mfaEnabled` must complete an emailed
+// one-time code after their password (OTP is the second factor)
+// Enabling OTP also allows signing in with a code alone, main.pb.js
+// rejects that unless SIGN_IN_MODE=otp
+migrate(
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    users.fields.add(
+      new BoolField({
+        name: "mfaEnabled",
+      })
+    );
+
+    users.otp.enabled = true;
+    users.mfa.enabled = true;
+    users.mfa.rule = "mfaEnabled = true";
+
+    app.save(users);
+  },
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    users.fields.removeByName("mfaEnabled");
+    users.mfa.enabled = false;
+    users.mfa.rule = "";
+
+    app.save(users);
+  }
+);
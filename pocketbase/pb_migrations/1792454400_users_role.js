@@ -0,0 +1,41 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Roles for src/shared/auth/permissions.ts. The API rules mirror its
+// permission map, so the backend enforces the same policy as `can()`.
+// Only admins may set a role; users without one are plain users.
+migrate(
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    users.fields.add(
+      new SelectField({
+        name: "role",
+        maxSelect: 1,
+        values: ["user", "editor", "admin"],
+      })
+    );
+
+    const isAdmin = '@request.auth.role = "admin"';
+    const isStaff = `(@request.auth.role = "editor" || ${isAdmin})`;
+
+    users.listRule = `id = @request.auth.id || ${isStaff}`;
+    users.viewRule = `id = @request.auth.id || ${isStaff}`;
+    users.createRule = "@request.body.role:isset = false";
+    users.updateRule = `(id = @request.auth.id && @request.body.role:isset = false) || ${isAdmin}`;
+    users.deleteRule = `id = @request.auth.id || ${isAdmin}`;
+
+    app.save(users);
+  },
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    users.fields.removeByName("role");
+    users.listRule = "id = @request.auth.id";
+    users.viewRule = "id = @request.auth.id";
+    users.createRule = "";
+    users.updateRule = "id = @request.auth.id";
+    users.deleteRule = "id = @request.auth.id";
+
+    app.save(users);
+  }
+);
@@ -0,0 +1,142 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Organizations with per-org roles (owner, admin, member) and email
+// invitations. Records of other members are only visible in the active
+// organization, sent by the app as the `X-Organization` header.
+migrate(
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    const organizations = new Collection({
+      type: "base",
+      name: "organizations",
+      fields: [
+        new TextField({ name: "name", required: true, max: 100 }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+    });
+    app.save(organizations);
+
+    const memberships = new Collection({
+      type: "base",
+      name: "memberships",
+      fields: [
+        new RelationField({
+          name: "organization",
+          collectionId: organizations.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        new RelationField({
+          name: "user",
+          collectionId: users.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        new SelectField({
+          name: "role",
+          maxSelect: 1,
+          required: true,
+          values: ["owner", "admin", "member"],
+        }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE UNIQUE INDEX idx_memberships_organization_user ON memberships (organization, user)",
+      ],
+    });
+    app.save(memberships);
+
+    const invitations = new Collection({
+      type: "base",
+      name: "invitations",
+      fields: [
+        new RelationField({
+          name: "organization",
+          collectionId: organizations.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        new EmailField({ name: "email", required: true }),
+        new SelectField({
+          name: "role",
+          maxSelect: 1,
+          required: true,
+          values: ["admin", "member"],
+        }),
+        new RelationField({
+          name: "invitedBy",
+          collectionId: users.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        // Secret of the acceptance link, never returned by the API
+        new TextField({
+          name: "token",
+          hidden: true,
+          autogeneratePattern: "[a-zA-Z0-9]{48}",
+        }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+    });
+    app.save(invitations);
+
+    // Back-relation conditions on the same path match the same membership
+    const isMember = (path) => `${path}.user ?= @request.auth.id`;
+    const isManager = (path) =>
+      `${isMember(path)} && (${path}.role ?= "owner" || ${path}.role ?= "admin")`;
+    const inActiveOrg = "organization = @request.headers.x_organization";
+    const orgMembers = "organization.memberships_via_organization";
+
+    organizations.listRule = isMember("memberships_via_organization");
+    organizations.viewRule = isMember("memberships_via_organization");
+    // The creator becomes the owner, see pb_hooks/main.pb.js
+    organizations.createRule = '@request.auth.collectionName = "users"';
+    organizations.updateRule = isManager("memberships_via_organization");
+    organizations.deleteRule = `${isMember("memberships_via_organization")} && memberships_via_organization.role ?= "owner"`;
+    app.save(organizations);
+
+    // Own memberships are always visible, for the organization switcher
+    memberships.listRule = `user = @request.auth.id || (${inActiveOrg} && ${isMember(orgMembers)})`;
+    memberships.viewRule = memberships.listRule;
+    // Created by the organization hook and by accepted invitations
+    memberships.createRule = null;
+    // Owners can't be demoted or removed, and nobody can make new owners
+    memberships.updateRule = `@request.body.organization:isset = false && @request.body.user:isset = false && role != "owner" && @request.body.role != "owner" && ${isManager(orgMembers)}`;
+    memberships.deleteRule = `role != "owner" && (user = @request.auth.id || ${isManager(orgMembers)})`;
+    app.save(memberships);
+
+    invitations.listRule = `${inActiveOrg} && ${isManager(orgMembers)}`;
+    invitations.viewRule = invitations.listRule;
+    invitations.createRule = `@request.body.token:isset = false && invitedBy = @request.auth.id && ${isManager(orgMembers)}`;
+    // Accepted through the app with superuser access
+    invitations.updateRule = null;
+    invitations.deleteRule = isManager(orgMembers);
+    app.save(invitations);
+
+    // Members see each other's names in the member list
+    const coMember = `memberships_via_user.${isMember(orgMembers)}`;
+    users.listRule = `${users.listRule} || ${coMember}`;
+    users.viewRule = `${users.viewRule} || ${coMember}`;
+    app.save(users);
+  },
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+    const coMember =
+      "memberships_via_user.organization.memberships_via_organization.user ?= @request.auth.id";
+    users.listRule = users.listRule.replace(` || ${coMember}`, "");
+    users.viewRule = users.viewRule.replace(` || ${coMember}`, "");
+    app.save(users);
+
+    for (const name of ["invitations", "memberships", "organizations"]) {
+      app.delete(app.findCollectionByNameOrId(name));
+    }
+  }
+);
@@ -0,0 +1,45 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Sign-in history, written by the onRecordAuthRequest hook in
+// pb_hooks/main.pb.js. Users can only read their own events.
+migrate(
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+
+    const loginEvents = new Collection({
+      type: "base",
+      name: "login_events",
+      listRule: "user = @request.auth.id",
+      viewRule: "user = @request.auth.id",
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [
+        new RelationField({
+          name: "user",
+          collectionId: users.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        new SelectField({
+          name: "method",
+          maxSelect: 1,
+          required: true,
+          values: ["password", "oauth2", "otp"],
+        }),
+        new TextField({ name: "ip" }),
+        new TextField({ name: "userAgent", max: 1000 }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE INDEX idx_login_events_user_created ON login_events (user, created)",
+      ],
+    });
+    app.save(loginEvents);
+  },
+  (app) => {
+    app.delete(app.findCollectionByNameOrId("login_events"));
+  }
+);
@@ -0,0 +1,60 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Objects uploaded to R2, recorded by the app once the upload finished.
+// Owners and members of the file's organization can read the records;
+// only the app (as superuser) creates them, after checking the object.
+migrate(
+  (app) => {
+    const users = app.findCollectionByNameOrId("users");
+    const organizations = app.findCollectionByNameOrId("organizations");
+
+    const canRead =
+      'owner = @request.auth.id || (organization != "" && organization.memberships_via_organization.user ?= @request.auth.id)';
+
+    const files = new Collection({
+      type: "base",
+      name: "files",
+      listRule: canRead,
+      viewRule: canRead,
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [
+        // R2 object key, uploads/<owner>/<uuid>/<name>
+        new TextField({ name: "key", required: true, max: 1024 }),
+        new TextField({ name: "name", required: true, max: 255 }),
+        new NumberField({
+          name: "size",
+          required: true,
+          onlyInt: true,
+          min: 0,
+        }),
+        new TextField({ name: "contentType", max: 255 }),
+        new RelationField({
+          name: "owner",
+          collectionId: users.id,
+          cascadeDelete: true,
+          maxSelect: 1,
+          required: true,
+        }),
+        // Active organization of the owner at upload time
+        new RelationField({
+          name: "organization",
+          collectionId: organizations.id,
+          cascadeDelete: false,
+          maxSelect: 1,
+        }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE UNIQUE INDEX idx_files_key ON files (key)",
+        "CREATE INDEX idx_files_owner_created ON files (owner, created)",
+      ],
+    });
+    app.save(files);
+  },
+  (app) => {
+    app.delete(app.findCollectionByNameOrId("files"));
+  }
+);
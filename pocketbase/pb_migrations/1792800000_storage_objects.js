@@ -0,0 +1,45 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+// Objects of the pocketbase storage driver (STORAGE_DRIVER=pocketbase),
+// one record per key. Only the app reads and writes them, as superuser;
+// browsers get signed /api/storage URLs instead of file URLs.
+migrate(
+  (app) => {
+    const storageObjects = new Collection({
+      type: "base",
+      name: "storage_objects",
+      listRule: null,
+      viewRule: null,
+      createRule: null,
+      updateRule: null,
+      deleteRule: null,
+      fields: [
+        new TextField({ name: "key", required: true, max: 1024 }),
+        new FileField({
+          name: "file",
+          required: true,
+          maxSelect: 1,
+          // 1 GiB, larger objects belong in R2
+          maxSize: 1024 * 1024 * 1024,
+          protected: true,
+        }),
+        new NumberField({
+          name: "size",
+          required: true,
+          onlyInt: true,
+          min: 0,
+        }),
+        new TextField({ name: "contentType", max: 255 }),
+        new AutodateField({ name: "created", onCreate: true }),
+        new AutodateField({ name: "updated", onCreate: true, onUpdate: true }),
+      ],
+      indexes: [
+        "CREATE UNIQUE INDEX idx_storage_objects_key ON storage_objects (key)",
+      ],
+    });
+    app.save(storageObjects);
+  },
+  (app) => {
+    app.delete(app.findCollectionByNameOrId("storage_objects"));
+  }
+);
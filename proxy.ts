@@ -0,0 +1,176 @@
+import { type NextRequest, NextResponse } from "next/server";
+import PocketBase, { isTokenExpired } from "pocketbase";
+import {
+  AUTH_COOKIE_NAME,
+  exportAuthCookie,
+  getAuthCookieValue,
+} from "@/shared/auth/cookie";
+import { isBlockedPocketBaseRequest } from "@/shared/auth/pocketbase-proxy";
+import {
+  authRoutes,
+  getSafeRedirect,
+  isGuestOnlyRoute,
+  isProtectedRoute,
+  NEXT_PARAM,
+} from "@/shared/auth/routes";
+import { serverConfig } from "@/shared/config/server";
+import type { TypedClient } from "@/shared/db/typed-client";
+import type { UsersResponse } from "@/shared/db/types";
+import {
+  ACTIVE_ORG_COOKIE_NAME,
+  ORG_HEADER,
+} from "@/shared/organizations/cookie";
+
+// Refresh the token when it has less than a day left
+const REFRESH_THRESHOLD_SECONDS = 60 * 60 * 24;
+
+/**
+ * Load the pb_auth cookie into a fresh PocketBase client and refresh
+ * the token when it is close to expiry
+ * @returns The client and whether the auth state changed
+ */
+async function loadAuth(request: NextRequest) {
+  const pb = new PocketBase(
+    serverConfig.pocketbaseUrl
+  ) as TypedClient<UsersResponse>;
+  const authCookie = request.cookies.get(AUTH_COOKIE_NAME);
+  if (!authCookie?.value) {
+    return { pb, changed: false };
+  }
+
+  pb.authStore.loadFromCookie(`${AUTH_COOKIE_NAME}=${authCookie.value}`);
+
+  if (!pb.authStore.isValid) {
+    pb.authStore.clear();
+    return { pb, changed: true };
+  }
+
+  if (isTokenExpired(pb.authStore.token, REFRESH_THRESHOLD_SECONDS)) {
+    try {
+      await pb.collection("users").authRefresh();
+    } catch {
+      // Token revoked or user deleted
+      pb.authStore.clear();
+    }
+    return { pb, changed: true };
+  }
+
+  return { pb, changed: false };
+}
+
+// Browser PocketBase calls go through the next.config.ts rewrite
+const POCKETBASE_PROXY_PATH = "/api/pocketbase/";
+
+/**
+ * Reject browser calls to PocketBase auth endpoints, which the rate
+ * limited auth Server Actions handle instead, and to endpoints that
+ * would hand the httpOnly cookie's token to scripts
+ * @returns A 403 response in PocketBase's error format, or null
+ */
+function rejectPocketBaseAuth(request: NextRequest) {
+  let pathname: string;
+  try {
+    // PocketBase matches routes on the decoded path
+    pathname = decodeURIComponent(
+      request.nextUrl.pathname.slice(POCKETBASE_PROXY_PATH.length - 1)
+    );
+  } catch {
+    pathname = "";
+  }
+  if (!(pathname && !isBlockedPocketBaseRequest(request.method, pathname))) {
+    return NextResponse.json(
+      {
+        status: 403,
+        message: "This endpoint is only available to the app",
+        data: {},
+      },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Write the refreshed (or cleared) auth state back to the browser
+ */
+function withAuthCookie(
+  response: NextResponse,
+  pb: PocketBase,
+  changed: boolean
+) {
+  if (!changed) {
+    return response;
+  }
+  if (pb.authStore.isValid) {
+    response.headers.append("set-cookie", exportAuthCookie(pb));
+  } else {
+    response.cookies.delete(AUTH_COOKIE_NAME);
+  }
+  return response;
+}
+
+/**
+ * Validates and refreshes the pb_auth cookie, then guards routes:
+ * - Protected routes redirect anonymous users to sign in with `?next=`
+ * - Sign in / sign up redirect signed-in users away
+ * - Browser calls to /api/pocketbase get the token as Authorization header,
+ *   since the httpOnly cookie is not readable from JavaScript, and the
+ *   active organization as X-Organization header. Auth endpoints and
+ *   endpoints returning a token are rejected, see pocketbase-proxy.ts
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const { pb, changed } = await loadAuth(request);
+  const isAuthenticated = pb.authStore.isValid;
+
+  if (pathname.startsWith(POCKETBASE_PROXY_PATH)) {
+    const rejected = rejectPocketBaseAuth(request);
+    if (rejected) {
+      return withAuthCookie(rejected, pb, changed);
+    }
+    if (isAuthenticated && !request.headers.has("authorization")) {
+      request.headers.set("authorization", pb.authStore.token);
+    }
+    const activeOrg = request.cookies.get(ACTIVE_ORG_COOKIE_NAME)?.value;
+    if (activeOrg && !request.headers.has(ORG_HEADER)) {
+      request.headers.set(ORG_HEADER, activeOrg);
+    }
+    return withAuthCookie(NextResponse.next({ request }), pb, changed);
+  }
+
+  if (!isAuthenticated && isProtectedRoute(pathname)) {
+    const url = request.nextUrl.clone();
+    url.pathname = authRoutes.signIn;
+    url.search = "";
+    url.searchParams.set(NEXT_PARAM, `${pathname}${search}`);
+    return withAuthCookie(NextResponse.redirect(url), pb, changed);
+  }
+
+  if (isAuthenticated && isGuestOnlyRoute(pathname)) {
+    const next = getSafeRedirect(request.nextUrl.searchParams.get(NEXT_PARAM));
+    return withAuthCookie(
+      NextResponse.redirect(new URL(next, request.url)),
+      pb,
+      changed
+    );
+  }
+
+  if (changed) {
+    // Forward the updated cookie so server components see the new state
+    if (isAuthenticated) {
+      request.cookies.set(AUTH_COOKIE_NAME, getAuthCookieValue(pb).value);
+    } else {
+      request.cookies.delete(AUTH_COOKIE_NAME);
+    }
+  }
+
+  return withAuthCookie(NextResponse.next({ request }), pb, changed);
+}
+
+export const config = {
+  matcher: [
+    // Skip API routes, Next.js internals and static files
+    "/((?!api|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)",
+    "/api/pocketbase/:path*",
+  ],
+};
@@ -0,0 +1,66 @@
+"use client";
+
+import { useCollectionList } from "@/shared/api/use-collection-list";
+import { useDeleteRecord } from "@/shared/api/use-record-mutations";
+import { Collections } from "@/shared/db/types";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { Button } from "@/shared/ui/button";
+
+/**
+ * Devices PocketBase has seen the current user sign in from
+ * A forgotten device gets a new-login alert email on its next sign in
+ */
+export function AuthOrigins() {
+  const { data, isLoading } = useCollectionList(Collections.Authorigins, {
+    sort: "-updated",
+  });
+  const forget = useDeleteRecord(Collections.Authorigins);
+
+  if (isLoading) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  if (!data?.items.length) {
+    return (
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        No known devices.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {data.items.map((origin) => (
+          <li
+            className="flex items-center justify-between gap-3 py-3"
+            key={origin.id}
+          >
+            <div>
+              <p className="font-mono text-sm text-zinc-900 dark:text-zinc-100">
+                {origin.fingerprint.slice(0, 12)}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                First seen {new Date(origin.created).toLocaleDateString()}, last
+                used {new Date(origin.updated).toLocaleString()}
+              </p>
+            </div>
+            <Button
+              disabled={forget.isPending}
+              onClick={() => forget.mutate(origin.id)}
+              size="sm"
+              variant="outline"
+            >
+              Forget
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {forget.error && (
+        <p className="text-red-500 text-sm">{toErrorMessage(forget.error)}</p>
+      )}
+    </div>
+  );
+}
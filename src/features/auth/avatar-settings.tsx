@@ -0,0 +1,68 @@
+"use client";
+
+import { type ChangeEvent, useRef } from "react";
+import { AVATAR_TYPES } from "@/shared/auth/avatar";
+import { UserAvatar } from "@/shared/auth/user-avatar";
+import { useAuth } from "@/shared/providers/auth-provider";
+import { Button } from "@/shared/ui/button";
+import { useUpdateAvatar } from "./use-update-avatar";
+
+/**
+ * Upload or remove the current user's avatar
+ */
+export function AvatarSettings() {
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const { uploadAvatar, removeAvatar, isLoading, error } = useUpdateAvatar();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (isLoadingUser || !user) {
+    return (
+      <div className="size-16 animate-pulse rounded-full bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after an error
+    event.target.value = "";
+    if (file) {
+      await uploadAvatar(file);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4">
+        <UserAvatar className="size-16 text-xl" user={user} />
+        <input
+          accept={AVATAR_TYPES.join(",")}
+          className="hidden"
+          onChange={handleChange}
+          ref={inputRef}
+          type="file"
+        />
+        <Button
+          disabled={isLoading}
+          onClick={() => inputRef.current?.click()}
+          size="sm"
+        >
+          {isLoading ? "Saving..." : "Upload"}
+        </Button>
+        {user.avatar && (
+          <Button
+            disabled={isLoading}
+            onClick={removeAvatar}
+            size="sm"
+            variant="outline"
+          >
+            Remove
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        JPEG, PNG, WebP or GIF, up to 2 MB
+      </p>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { type ChangeEmailFormData, changeEmailSchema } from "./schemas";
+import { useChangeEmail } from "./use-change-email";
+
+export function ChangeEmailForm() {
+  const form = useForm<ChangeEmailFormData>({
+    resolver: zodResolver(changeEmailSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+  const { requestChange, isLoading, sentTo, error } = useChangeEmail(form);
+
+  async function onSubmit(data: ChangeEmailFormData) {
+    await requestChange(data);
+  }
+
+  if (sentTo) {
+    return (
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        We sent a confirmation link to {sentTo}. Your email changes once you
+        open it.
+      </p>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New email</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  type="email"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button disabled={isLoading} type="submit">
+          {isLoading ? "Sending..." : "Send confirmation link"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { type ChangePasswordFormData, changePasswordSchema } from "./schemas";
+import { useChangePassword } from "./use-change-password";
+
+export function ChangePasswordForm() {
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      oldPassword: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+  const { changePassword, isLoading, isChanged, error } =
+    useChangePassword(form);
+
+  async function onSubmit(data: ChangePasswordFormData) {
+    const result = await changePassword(data);
+    if ("data" in result) {
+      form.reset();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="oldPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current password</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="current-password"
+                  placeholder="••••••••"
+                  type="password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="new-password"
+                  placeholder="••••••••"
+                  type="password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="new-password"
+                  placeholder="••••••••"
+                  type="password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {isChanged && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Your password was changed. Other devices have been signed out.
+          </p>
+        )}
+        <Button disabled={isLoading} type="submit">
+          {isLoading ? "Changing..." : "Change password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import {
+  type ConfirmEmailChangeFormData,
+  confirmEmailChangeSchema,
+} from "./schemas";
+import { useConfirmEmailChange } from "./use-confirm-email-change";
+
+export function ConfirmEmailChangeForm({ token }: { token: string }) {
+  const form = useForm<ConfirmEmailChangeFormData>({
+    resolver: zodResolver(confirmEmailChangeSchema),
+    defaultValues: {
+      password: "",
+    },
+  });
+  const { confirmEmailChange, isLoading, error } = useConfirmEmailChange(
+    token,
+    form
+  );
+
+  async function onSubmit(data: ConfirmEmailChangeFormData) {
+    await confirmEmailChange(data);
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="current-password"
+                  placeholder="••••••••"
+                  type="password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Confirming..." : "Confirm new email"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
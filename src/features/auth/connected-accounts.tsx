@@ -0,0 +1,114 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { sessionQueryKey, signInWithOAuth2 } from "@/shared/auth/client";
+import { pbBrowser } from "@/shared/db/browser";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { Button } from "@/shared/ui/button";
+import { useAuthMethods } from "./use-auth-methods";
+
+const externalAuthsQueryKey = ["external-auths"] as const;
+
+/**
+ * Lists OAuth2 providers and lets the signed-in user link or unlink them
+ * Requests are authorized by the proxy with the httpOnly cookie token,
+ * and the _externalAuths API rules only return the user's own links.
+ */
+export function ConnectedAccounts() {
+  const queryClient = useQueryClient();
+  const { data: authMethods, isLoading: isLoadingMethods } = useAuthMethods();
+  const { data: externalAuths = [], isLoading: isLoadingLinks } = useQuery({
+    queryKey: externalAuthsQueryKey,
+    queryFn: () => pbBrowser.collection("_externalAuths").getFullList(),
+  });
+
+  const link = useMutation({
+    // Authenticating while signed in links the provider to the current user
+    mutationFn: async (provider: string) => {
+      const result = await signInWithOAuth2(provider);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.user;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(sessionQueryKey, user);
+      queryClient.invalidateQueries({ queryKey: externalAuthsQueryKey });
+    },
+  });
+
+  const unlink = useMutation({
+    mutationFn: (externalAuthId: string) =>
+      pbBrowser.collection("_externalAuths").delete(externalAuthId),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: externalAuthsQueryKey }),
+  });
+
+  if (isLoadingMethods || isLoadingLinks) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  const providers = authMethods?.oauth2.enabled
+    ? authMethods.oauth2.providers
+    : [];
+
+  if (providers.length === 0) {
+    return (
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        No OAuth2 providers are enabled.
+      </p>
+    );
+  }
+
+  const isBusy = link.isPending || unlink.isPending;
+  const error = link.error ?? unlink.error;
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {providers.map((provider) => {
+          const externalAuth = externalAuths.find(
+            (auth) => auth.provider === provider.name
+          );
+
+          return (
+            <li
+              className="flex items-center justify-between py-3"
+              key={provider.name}
+            >
+              <div>
+                <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                  {provider.displayName}
+                </p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {externalAuth ? "Connected" : "Not connected"}
+                </p>
+              </div>
+              {externalAuth ? (
+                <Button
+                  disabled={isBusy}
+                  onClick={() => unlink.mutate(externalAuth.id)}
+                  size="sm"
+                  variant="outline"
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                <Button
+                  disabled={isBusy}
+                  onClick={() => link.mutate(provider.name)}
+                  size="sm"
+                >
+                  Connect
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="text-red-500 text-sm">{toErrorMessage(error)}</p>}
+    </div>
+  );
+}
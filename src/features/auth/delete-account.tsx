@@ -0,0 +1,53 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/shared/ui/alert-dialog";
+import { Button, buttonVariants } from "@/shared/ui/button";
+import { useDeleteAccount } from "./use-delete-account";
+
+/**
+ * Delete the current user's account after confirming in a dialog
+ */
+export function DeleteAccount() {
+  const { deleteAccount, isLoading, error } = useDeleteAccount();
+
+  return (
+    <div className="space-y-3">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button disabled={isLoading} variant="destructive">
+            {isLoading ? "Deleting..." : "Delete account"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your profile and memberships are removed permanently. This can't
+              be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={deleteAccount}
+            >
+              Delete account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { type ForgotPasswordFormData, forgotPasswordSchema } from "./schemas";
+import { useForgotPassword } from "./use-forgot-password";
+
+export function ForgotPasswordForm() {
+  const { requestReset, isLoading, isSent, error } = useForgotPassword();
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(data: ForgotPasswordFormData) {
+    await requestReset(data);
+  }
+
+  if (isSent) {
+    return (
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        If an account exists for {form.getValues("email")}, you will receive an
+        email with a link to reset your password.
+      </p>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  type="email"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Sending..." : "Send reset link"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { Button } from "@/shared/ui/button";
+import { useOtpSignIn } from "./use-otp-sign-in";
+
+/**
+ * Completes a magic link sign in on click rather than on load,
+ * so link scanners in mail clients can't consume the code
+ */
+export function MagicLinkSignIn({
+  otpId,
+  code,
+}: {
+  otpId: string;
+  code: string;
+}) {
+  const { verifyCode, isLoading, error } = useOtpSignIn();
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <Button
+        className="w-full"
+        disabled={isLoading}
+        onClick={() => verifyCode(otpId, { code })}
+        type="button"
+      >
+        {isLoading ? "Signing in..." : "Sign in"}
+      </Button>
+    </div>
+  );
+}
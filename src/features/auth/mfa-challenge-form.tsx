@@ -0,0 +1,83 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { type OtpVerifyFormData, otpVerifySchema } from "./schemas";
+
+interface MfaChallengeFormProps {
+  email: string;
+  error: string | null;
+  isLoading: boolean;
+  onCancel: () => void;
+  onSubmit: (data: OtpVerifyFormData) => Promise<unknown>;
+}
+
+/**
+ * Second sign in step when MFA is enabled for the user
+ */
+export function MfaChallengeForm({
+  email,
+  error,
+  isLoading,
+  onCancel,
+  onSubmit,
+}: MfaChallengeFormProps) {
+  const form = useForm<OtpVerifyFormData>({
+    resolver: zodResolver(otpVerifySchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          Two-factor authentication is enabled. We sent a code to {email}.
+        </p>
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Code</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  placeholder="12345678"
+                  type="text"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Verifying..." : "Verify"}
+        </Button>
+        <Button
+          className="w-full"
+          disabled={isLoading}
+          onClick={onCancel}
+          type="button"
+          variant="ghost"
+        >
+          Back to sign in
+        </Button>
+      </form>
+    </Form>
+  );
+}
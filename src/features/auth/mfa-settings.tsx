@@ -0,0 +1,51 @@
+"use client";
+
+import { useAuth } from "@/shared/providers/auth-provider";
+import { Badge } from "@/shared/ui/badge";
+import { Button } from "@/shared/ui/button";
+import { useMfaSettings } from "./use-mfa-settings";
+
+/**
+ * Toggle for two-factor authentication (password + emailed code)
+ */
+export function MfaSettings() {
+  const { user, isLoading: isLoadingUser } = useAuth();
+  const { setEnabled, isLoading, error } = useMfaSettings();
+
+  if (isLoadingUser || !user) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  const isEnabled = Boolean(user.mfaEnabled);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
+              Email code
+            </p>
+            <Badge variant={isEnabled ? "default" : "outline"}>
+              {isEnabled ? "On" : "Off"}
+            </Badge>
+          </div>
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            After your password, enter a one-time code sent to {user.email}
+          </p>
+        </div>
+        <Button
+          disabled={isLoading}
+          onClick={() => setEnabled(!isEnabled)}
+          size="sm"
+          variant={isEnabled ? "outline" : "default"}
+        >
+          {isEnabled ? "Turn off" : "Turn on"}
+        </Button>
+      </div>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
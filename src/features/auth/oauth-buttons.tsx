@@ -0,0 +1,51 @@
+"use client";
+
+import { Button } from "@/shared/ui/button";
+import { useAuthMethods } from "./use-auth-methods";
+import { useOAuthSignIn } from "./use-oauth-sign-in";
+
+/**
+ * OAuth2 provider buttons for the sign in and sign up pages
+ * Renders nothing when no provider is enabled in PocketBase
+ */
+export function OAuthButtons() {
+  const { data: authMethods } = useAuthMethods();
+  const { signIn, pendingProvider, error } = useOAuthSignIn();
+
+  const providers = authMethods?.oauth2.enabled
+    ? authMethods.oauth2.providers
+    : [];
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="h-px flex-1 bg-zinc-200 dark:bg-zinc-800" />
+        <span className="text-xs text-zinc-500 uppercase dark:text-zinc-400">
+          Or continue with
+        </span>
+        <span className="h-px flex-1 bg-zinc-200 dark:bg-zinc-800" />
+      </div>
+      <div className="grid gap-2">
+        {providers.map((provider) => (
+          <Button
+            className="w-full"
+            disabled={pendingProvider !== null}
+            key={provider.name}
+            onClick={() => signIn(provider.name)}
+            type="button"
+            variant="outline"
+          >
+            {pendingProvider === provider.name
+              ? "Waiting for provider..."
+              : provider.displayName}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import {
+  type OtpRequestFormData,
+  type OtpVerifyFormData,
+  otpRequestSchema,
+  otpVerifySchema,
+} from "./schemas";
+import { useOtpSignIn } from "./use-otp-sign-in";
+
+/**
+ * Passwordless sign in: email step, then one-time code step
+ * The email also contains a magic link to /auth/magic-link
+ */
+export function OtpSignInForm() {
+  const { requestCode, verifyCode, reset, otp, isLoading, error } =
+    useOtpSignIn();
+
+  const emailForm = useForm<OtpRequestFormData>({
+    resolver: zodResolver(otpRequestSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const codeForm = useForm<OtpVerifyFormData>({
+    resolver: zodResolver(otpVerifySchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  async function onRequestCode(data: OtpRequestFormData) {
+    await requestCode(data);
+  }
+
+  async function onVerifyCode(data: OtpVerifyFormData) {
+    if (otp) {
+      await verifyCode(otp.otpId, data);
+    }
+  }
+
+  if (otp) {
+    return (
+      <Form {...codeForm}>
+        <form
+          className="space-y-4"
+          onSubmit={codeForm.handleSubmit(onVerifyCode)}
+        >
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            We sent a code to {otp.email}. Enter it below or click the link in
+            the email.
+          </p>
+          <FormField
+            control={codeForm.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Code</FormLabel>
+                <FormControl>
+                  <Input
+                    autoComplete="one-time-code"
+                    inputMode="numeric"
+                    placeholder="12345678"
+                    type="text"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <Button className="w-full" disabled={isLoading} type="submit">
+            {isLoading ? "Signing in..." : "Sign in"}
+          </Button>
+          <Button
+            className="w-full"
+            disabled={isLoading}
+            onClick={reset}
+            type="button"
+            variant="ghost"
+          >
+            Use a different email
+          </Button>
+        </form>
+      </Form>
+    );
+  }
+
+  return (
+    <Form {...emailForm}>
+      <form
+        className="space-y-4"
+        onSubmit={emailForm.handleSubmit(onRequestCode)}
+      >
+        <FormField
+          control={emailForm.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="email"
+                  placeholder="you@example.com"
+                  type="email"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Sending code..." : "Email me a code"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
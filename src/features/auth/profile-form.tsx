@@ -0,0 +1,57 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useAuth } from "@/shared/providers/auth-provider";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { type ProfileFormData, profileSchema } from "./schemas";
+import { useUpdateProfile } from "./use-update-profile";
+
+export function ProfileForm() {
+  const { user } = useAuth();
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    values: {
+      name: user?.name ?? "",
+    },
+  });
+  const { updateProfile, isLoading, error } = useUpdateProfile(form);
+
+  async function onSubmit(data: ProfileFormData) {
+    await updateProfile(data);
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" placeholder="John Doe" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button disabled={isLoading || !form.formState.isDirty} type="submit">
+          {isLoading ? "Saving..." : "Save"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useResendVerification } from "./use-resend-verification";
+
+/**
+ * Compact notice for signed-in users whose email isn't verified yet
+ */
+export function ResendVerification({ email }: { email: string }) {
+  const { resend, isLoading, isSent, error } = useResendVerification();
+
+  if (isSent) {
+    return (
+      <p className="text-amber-600 text-xs dark:text-amber-500">
+        Verification email sent
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-amber-600 text-xs dark:text-amber-500">
+      {error ?? "Email not verified"} ·{" "}
+      <button
+        className="font-medium underline-offset-2 hover:underline disabled:opacity-50"
+        disabled={isLoading}
+        onClick={() => resend(email)}
+        type="button"
+      >
+        {isLoading ? "Sending..." : "Resend"}
+      </button>
+    </p>
+  );
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { AVATAR_MAX_SIZE, AVATAR_TYPES } from "@/shared/auth/avatar";
 
 export const signInSchema = z.object({
   email: z.string().email("Please enter a valid email"),
@@ -17,5 +18,69 @@ export const signUpSchema = z
     path: ["confirmPassword"],
   });
 
+export const otpRequestSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+export const otpVerifySchema = z.object({
+  code: z.string().trim().min(1, "Please enter the code from your email"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+export const resetPasswordSchema = z
+  .object({
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+export const profileSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+});
+
+export const avatarSchema = z
+  .instanceof(File)
+  .refine((file) => AVATAR_TYPES.includes(file.type), {
+    message: "Avatar must be a JPEG, PNG, WebP or GIF image",
+  })
+  .refine((file) => file.size <= AVATAR_MAX_SIZE, {
+    message: "Avatar must be 2 MB or smaller",
+  });
+
+export const changeEmailSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+export const confirmEmailChangeSchema = z.object({
+  password: z.string().min(1, "Please enter your password"),
+});
+
+export const changePasswordSchema = z
+  .object({
+    oldPassword: z.string().min(1, "Please enter your current password"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
 export type SignInFormData = z.infer<typeof signInSchema>;
 export type SignUpFormData = z.infer<typeof signUpSchema>;
+export type OtpRequestFormData = z.infer<typeof otpRequestSchema>;
+export type OtpVerifyFormData = z.infer<typeof otpVerifySchema>;
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+export type ProfileFormData = z.infer<typeof profileSchema>;
+export type ChangeEmailFormData = z.infer<typeof changeEmailSchema>;
+export type ConfirmEmailChangeFormData = z.infer<
+  typeof confirmEmailChangeSchema
+>;
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
@@ -0,0 +1,55 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { authRoutes, NEXT_PARAM } from "@/shared/auth/routes";
+import { useAuth } from "@/shared/providers/auth-provider";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/shared/ui/alert-dialog";
+
+/**
+ * Asks the user to sign in again once their session could not be renewed
+ * Sign in returns to the current page
+ */
+export function SessionExpiredDialog() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { sessionExpired, dismissSessionExpired } = useAuth();
+
+  const handleSignIn = () => {
+    dismissSessionExpired();
+    const params = new URLSearchParams({ [NEXT_PARAM]: pathname });
+    router.push(`${authRoutes.signIn}?${params}`);
+  };
+
+  return (
+    <AlertDialog
+      onOpenChange={(open) => {
+        if (!open) {
+          dismissSessionExpired();
+        }
+      }}
+      open={sessionExpired}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Session expired</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have been signed out. Sign in again to continue.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Close</AlertDialogCancel>
+          <AlertDialogAction onClick={handleSignIn}>Sign in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
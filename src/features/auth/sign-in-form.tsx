@@ -2,6 +2,7 @@
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
+import { config } from "@/shared/config/public";
 import { Button } from "@/shared/ui/button";
 import {
   Form,
@@ -12,11 +13,30 @@ import {
   FormMessage,
 } from "@/shared/ui/form";
 import { Input } from "@/shared/ui/input";
+import { MfaChallengeForm } from "./mfa-challenge-form";
+import { OtpSignInForm } from "./otp-sign-in-form";
 import { type SignInFormData, signInSchema } from "./schemas";
+import { useRetryCountdown } from "./use-retry-countdown";
 import { useSignIn } from "./use-sign-in";
 
 export function SignInForm() {
-  const { signIn: signInAction, isLoading, error } = useSignIn();
+  if (config.signInMode === "otp") {
+    return <OtpSignInForm />;
+  }
+  return <PasswordSignInForm />;
+}
+
+function PasswordSignInForm() {
+  const {
+    signIn: signInAction,
+    verifyMfa,
+    cancelMfa,
+    mfa,
+    retryAt,
+    isLoading,
+    error,
+  } = useSignIn();
+  const secondsLeft = useRetryCountdown(retryAt);
 
   const form = useForm<SignInFormData>({
     resolver: zodResolver(signInSchema),
@@ -30,6 +50,18 @@ export function SignInForm() {
     await signInAction(data);
   }
 
+  if (mfa) {
+    return (
+      <MfaChallengeForm
+        email={mfa.email}
+        error={error}
+        isLoading={isLoading}
+        onCancel={cancelMfa}
+        onSubmit={verifyMfa}
+      />
+    );
+  }
+
   return (
     <Form {...form}>
       <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
@@ -69,8 +101,19 @@ export function SignInForm() {
             </FormItem>
           )}
         />
-        {error && <p className="text-red-500 text-sm">{error}</p>}
-        <Button className="w-full" disabled={isLoading} type="submit">
+        {secondsLeft > 0 ? (
+          <p className="text-red-500 text-sm">
+            Too many attempts, try again in {secondsLeft} seconds
+          </p>
+        ) : (
+          // The rate limit message is replaced by the countdown above
+          error && !retryAt && <p className="text-red-500 text-sm">{error}</p>
+        )}
+        <Button
+          className="w-full"
+          disabled={isLoading || secondsLeft > 0}
+          type="submit"
+        >
           {isLoading ? "Signing in..." : "Sign in"}
         </Button>
       </form>
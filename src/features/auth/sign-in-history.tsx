@@ -0,0 +1,50 @@
+"use client";
+
+import { useCollectionList } from "@/shared/api/use-collection-list";
+import { Collections, LoginEventsMethodOptions } from "@/shared/db/types";
+
+const methodLabels: Record<LoginEventsMethodOptions, string> = {
+  [LoginEventsMethodOptions.password]: "Password",
+  [LoginEventsMethodOptions.oauth2]: "OAuth2",
+  [LoginEventsMethodOptions.otp]: "One-time code",
+};
+
+/**
+ * Recent sign-ins of the current user, recorded by pb_hooks/main.pb.js
+ */
+export function SignInHistory() {
+  const { data, isLoading } = useCollectionList(Collections.LoginEvents, {
+    sort: "-created",
+    perPage: 10,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  if (!data?.items.length) {
+    return (
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        No sign-ins recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+      {data.items.map((event) => (
+        <li className="py-3" key={event.id}>
+          <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
+            {methodLabels[event.method]} ·{" "}
+            {new Date(event.created).toLocaleString()}
+          </p>
+          <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+            {event.ip || "Unknown IP"} · {event.userAgent || "Unknown device"}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
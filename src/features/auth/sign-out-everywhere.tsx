@@ -0,0 +1,24 @@
+"use client";
+
+import { Button } from "@/shared/ui/button";
+import { useSignOutEverywhere } from "./use-sign-out-everywhere";
+
+/**
+ * Sign out of every device, including this one
+ */
+export function SignOutEverywhere() {
+  const { signOutEverywhere, isLoading, error } = useSignOutEverywhere();
+
+  return (
+    <div className="space-y-3">
+      <Button
+        disabled={isLoading}
+        onClick={signOutEverywhere}
+        variant="outline"
+      >
+        {isLoading ? "Signing out..." : "Sign out everywhere"}
+      </Button>
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
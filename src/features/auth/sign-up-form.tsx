@@ -16,8 +16,6 @@ import { type SignUpFormData, signUpSchema } from "./schemas";
 import { useSignUp } from "./use-sign-up";
 
 export function SignUpForm() {
-  const { signUp: signUpAction, isLoading, error } = useSignUp();
-
   const form = useForm<SignUpFormData>({
     resolver: zodResolver(signUpSchema),
     defaultValues: {
@@ -27,6 +25,7 @@ export function SignUpForm() {
       confirmPassword: "",
     },
   });
+  const { signUp: signUpAction, isLoading, error } = useSignUp(form);
 
   async function onSubmit(data: SignUpFormData) {
     await signUpAction(data);
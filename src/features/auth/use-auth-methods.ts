@@ -0,0 +1,18 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { pbBrowser } from "@/shared/db/browser";
+
+export const authMethodsQueryKey = ["auth-methods"] as const;
+
+/**
+ * Auth methods enabled on the users collection
+ * Providers are configured in the PocketBase admin UI
+ */
+export function useAuthMethods() {
+  return useQuery({
+    queryKey: authMethodsQueryKey,
+    queryFn: () => pbBrowser.collection("users").listAuthMethods(),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+import { requestEmailChange } from "@/shared/auth/actions";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import type { ChangeEmailFormData } from "./schemas";
+
+/**
+ * Custom hook for requesting an email change
+ * Wraps the requestEmailChange Server Action with React state management
+ */
+export function useChangeEmail(form?: FormErrorTarget<ChangeEmailFormData>) {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const requestChangeAction = async (data: ChangeEmailFormData) => {
+    setIsLoading(true);
+    setError(null);
+    setSentTo(null);
+
+    try {
+      const result = await requestEmailChange(data.email);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (
+          !(
+            form &&
+            applyFieldErrors(form, result.fieldErrors, { newEmail: "email" })
+          )
+        ) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      setSentTo(data.email);
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    requestChange: requestChangeAction,
+    isLoading,
+    sentTo,
+    error,
+  };
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { changePassword } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { authRoutes } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import type { ChangePasswordFormData } from "./schemas";
+
+/**
+ * Custom hook for changing the current user's password
+ * Wraps the changePassword Server Action with React state management
+ */
+export function useChangePassword(
+  form?: FormErrorTarget<ChangePasswordFormData>
+) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isChanged, setIsChanged] = useState(false);
+
+  const changePasswordAction = async (data: ChangePasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+    setIsChanged(false);
+
+    try {
+      const result = await changePassword(data.oldPassword, data.password);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (
+          !(
+            form &&
+            applyFieldErrors(form, result.fieldErrors, {
+              passwordConfirm: "confirmPassword",
+            })
+          )
+        ) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      if ("expired" in result) {
+        queryClient.setQueryData(sessionQueryKey, null);
+        router.push(authRoutes.signIn);
+        router.refresh();
+        return { data: null };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      setIsChanged(true);
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    changePassword: changePasswordAction,
+    isLoading,
+    isChanged,
+    error,
+  };
+}
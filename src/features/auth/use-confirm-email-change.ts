@@ -0,0 +1,61 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { confirmEmailChange } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { authRoutes } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import type { ConfirmEmailChangeFormData } from "./schemas";
+
+/**
+ * Custom hook for confirming an email change from the emailed link
+ * Wraps the confirmEmailChange Server Action with React state management
+ */
+export function useConfirmEmailChange(
+  token: string,
+  form?: FormErrorTarget<ConfirmEmailChangeFormData>
+) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const confirmAction = async (data: ConfirmEmailChangeFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await confirmEmailChange(token, data.password);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (!(form && applyFieldErrors(form, result.fieldErrors))) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      // Changing the email signs out every session
+      queryClient.setQueryData(sessionQueryKey, null);
+      router.push(authRoutes.signIn);
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    confirmEmailChange: confirmAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { deleteAccount } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for deleting the current user's account
+ * Wraps the deleteAccount Server Action with React state management
+ */
+export function useDeleteAccount() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const deleteAccountAction = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await deleteAccount();
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, null);
+      router.push("/");
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    deleteAccount: deleteAccountAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { requestPasswordReset } from "@/shared/auth/actions";
+import { toErrorMessage } from "@/shared/lib/errors";
+import type { ForgotPasswordFormData } from "./schemas";
+
+/**
+ * Custom hook for requesting a password reset email
+ * Wraps the requestPasswordReset Server Action with React state management
+ */
+export function useForgotPassword() {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const requestResetAction = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await requestPasswordReset(data.email);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      setIsSent(true);
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    requestReset: requestResetAction,
+    isLoading,
+    isSent,
+    error,
+  };
+}
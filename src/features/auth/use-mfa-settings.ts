@@ -0,0 +1,44 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { setMfaEnabled } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for turning MFA on or off
+ * Wraps the setMfaEnabled Server Action with React state management
+ */
+export function useMfaSettings() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const setEnabledAction = async (enabled: boolean) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await setMfaEnabled(enabled);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    setEnabled: setEnabledAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { sessionQueryKey, signInWithOAuth2 } from "@/shared/auth/client";
+import { getSafeRedirect, NEXT_PARAM } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for OAuth2 sign-in functionality
+ * Wraps the PocketBase OAuth2 popup flow with React state management
+ */
+export function useOAuthSignIn() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+
+  const signInAction = async (provider: string) => {
+    setPendingProvider(provider);
+    setError(null);
+
+    try {
+      const result = await signInWithOAuth2(provider);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      const next = new URLSearchParams(window.location.search).get(NEXT_PARAM);
+      router.push(getSafeRedirect(next));
+      router.refresh();
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  return {
+    signIn: signInAction,
+    pendingProvider,
+    error,
+  };
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { requestOTP, signInWithOTP } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { getSafeRedirect, NEXT_PARAM } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+import type { OtpRequestFormData, OtpVerifyFormData } from "./schemas";
+
+/**
+ * Custom hook for passwordless (OTP / magic link) sign-in
+ * Step 1 emails a code, step 2 exchanges it for a session
+ */
+export function useOtpSignIn() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [otp, setOtp] = useState<{ otpId: string; email: string } | null>(null);
+
+  const requestCodeAction = async (data: OtpRequestFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await requestOTP(data.email);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      setOtp({ otpId: result.otpId, email: data.email });
+      return { data: result.otpId };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyCodeAction = async (otpId: string, data: OtpVerifyFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await signInWithOTP(otpId, data.code);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      const next = new URLSearchParams(window.location.search).get(NEXT_PARAM);
+      router.push(getSafeRedirect(next));
+      router.refresh();
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setOtp(null);
+    setError(null);
+  };
+
+  return {
+    requestCode: requestCodeAction,
+    verifyCode: verifyCodeAction,
+    reset,
+    otp,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+import { requestVerification } from "@/shared/auth/actions";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for resending the verification email
+ * Wraps the requestVerification Server Action with React state management
+ */
+export function useResendVerification() {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const resendAction = async (email: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await requestVerification(email);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      setIsSent(true);
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    resend: resendAction,
+    isLoading,
+    isSent,
+    error,
+  };
+}
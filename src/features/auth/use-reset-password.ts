@@ -0,0 +1,68 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { confirmPasswordReset } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { authRoutes } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import type { ResetPasswordFormData } from "./schemas";
+
+/**
+ * Custom hook for setting a new password from a reset link
+ * Wraps the confirmPasswordReset Server Action with React state management
+ */
+export function useResetPassword(
+  token: string,
+  form?: FormErrorTarget<ResetPasswordFormData>
+) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const resetPasswordAction = async (data: ResetPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await confirmPasswordReset(token, data.password);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (
+          !(
+            form &&
+            applyFieldErrors(form, result.fieldErrors, {
+              passwordConfirm: "confirmPassword",
+            })
+          )
+        ) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      // Resetting the password signs out every session
+      queryClient.setQueryData(sessionQueryKey, null);
+      router.push(authRoutes.signIn);
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    resetPassword: resetPasswordAction,
+    isLoading,
+    error,
+  };
+}
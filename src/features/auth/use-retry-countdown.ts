@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Seconds left until a rate limited action can be retried
+ * @param retryAt - When it can be retried, in milliseconds since epoch
+ */
+export function useRetryCountdown(retryAt: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+}
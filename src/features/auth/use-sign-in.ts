@@ -1,33 +1,86 @@
 "use client";
 
+import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import { signIn, syncAuthCookie } from "@/shared/auth/client";
-import type { SignInFormData } from "./schemas";
+import {
+  type AuthActionResult,
+  completeMfaSignIn,
+  type MfaChallenge,
+  signIn,
+} from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { getSafeRedirect, NEXT_PARAM } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+import type { OtpVerifyFormData, SignInFormData } from "./schemas";
 
 /**
  * Custom hook for sign-in functionality
- * Wraps PocketBase signIn with React state management
+ * Wraps the signIn Server Action with React state management
+ *
+ * When MFA is required, `mfa` holds the pending challenge and
+ * `verifyMfa` completes it with the emailed one-time code.
+ * After too many attempts, `retryAt` holds when to try again.
  */
 export function useSignIn() {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [mfa, setMfa] = useState<MfaChallenge | null>(null);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  const completeSignIn = (result: AuthActionResult) => {
+    if ("error" in result) {
+      setError(result.error);
+      if ("retryAfter" in result) {
+        setRetryAt(Date.now() + result.retryAfter * 1000);
+      }
+      return { error: result.error };
+    }
+    // Server set the httpOnly cookie, update the client snapshot
+    queryClient.setQueryData(sessionQueryKey, result.user);
+    // Return to the page the proxy redirected from, if any
+    const next = new URLSearchParams(window.location.search).get(NEXT_PARAM);
+    router.push(getSafeRedirect(next));
+    router.refresh();
+    return { data: result.user };
+  };
 
   const signInAction = async (data: SignInFormData) => {
     setIsLoading(true);
     setError(null);
+    setRetryAt(null);
 
     try {
       const result = await signIn(data.email, data.password);
-      // Sync auth state to cookie for server-side access
-      syncAuthCookie();
-      router.push("/");
-      router.refresh();
-      return { data: result };
+      if ("mfa" in result) {
+        setMfa(result.mfa);
+        return { mfa: result.mfa };
+      }
+      return completeSignIn(result);
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyMfaAction = async (data: OtpVerifyFormData) => {
+    if (!mfa) {
+      return { error: "No sign in to verify" };
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await completeMfaSignIn(mfa.mfaId, mfa.otpId, data.code);
+      return completeSignIn(result);
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "Something went wrong";
+      const message = toErrorMessage(err);
       setError(message);
       return { error: err };
     } finally {
@@ -35,8 +88,17 @@ export function useSignIn() {
     }
   };
 
+  const cancelMfa = () => {
+    setMfa(null);
+    setError(null);
+  };
+
   return {
     signIn: signInAction,
+    verifyMfa: verifyMfaAction,
+    cancelMfa,
+    mfa,
+    retryAt,
     isLoading,
     error,
   };
@@ -0,0 +1,49 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { signOutEverywhere } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { authRoutes } from "@/shared/auth/routes";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for signing out every session of the current user
+ * Wraps the signOutEverywhere Server Action with React state management
+ */
+export function useSignOutEverywhere() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const signOutEverywhereAction = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await signOutEverywhere();
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, null);
+      router.push(authRoutes.signIn);
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    signOutEverywhere: signOutEverywhereAction,
+    isLoading,
+    error,
+  };
+}
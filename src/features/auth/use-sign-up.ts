@@ -1,16 +1,24 @@
 "use client";
 
+import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import { signIn, signUp, syncAuthCookie } from "@/shared/auth/client";
+import { signUp } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
 import type { SignUpFormData } from "./schemas";
 
 /**
  * Custom hook for sign-up functionality
- * Wraps PocketBase signUp with React state management
+ * Wraps the signUp Server Action with React state management
  */
-export function useSignUp() {
+export function useSignUp(form?: FormErrorTarget<SignUpFormData>) {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -19,17 +27,28 @@ export function useSignUp() {
     setError(null);
 
     try {
-      await signUp(data.email, data.password, data.name);
-      // Auto sign-in after successful registration
-      await signIn(data.email, data.password);
-      // Sync auth state to cookie for server-side access
-      syncAuthCookie();
+      // Creates the account and signs in, setting the httpOnly cookie
+      const result = await signUp(data.email, data.password, data.name);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (
+          !(
+            form &&
+            applyFieldErrors(form, result.fieldErrors, {
+              passwordConfirm: "confirmPassword",
+            })
+          )
+        ) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
       router.push("/");
       router.refresh();
       return { data: true };
     } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "Something went wrong";
+      const message = toErrorMessage(err);
       setError(message);
       return { error: err };
     } finally {
@@ -0,0 +1,66 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import {
+  type AuthActionResult,
+  removeAvatar,
+  updateAvatar,
+} from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { avatarSchema } from "./schemas";
+
+/**
+ * Custom hook for uploading and removing the current user's avatar
+ * Wraps the updateAvatar and removeAvatar Server Actions with React state management
+ */
+export function useUpdateAvatar() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = async (action: () => Promise<AuthActionResult>) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await action();
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const uploadAvatarAction = (file: File) => {
+    // Checked here too, to skip sending files the server would reject
+    const parsed = avatarSchema.safeParse(file);
+    if (!parsed.success) {
+      const message = parsed.error.issues[0].message;
+      setError(message);
+      return Promise.resolve({ error: message });
+    }
+
+    const formData = new FormData();
+    formData.append("avatar", parsed.data);
+    return run(() => updateAvatar(formData));
+  };
+
+  const removeAvatarAction = () => run(removeAvatar);
+
+  return {
+    uploadAvatar: uploadAvatarAction,
+    removeAvatar: removeAvatarAction,
+    isLoading,
+    error,
+  };
+}
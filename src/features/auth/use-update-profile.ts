@@ -0,0 +1,52 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { updateProfile } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import type { ProfileFormData } from "./schemas";
+
+/**
+ * Custom hook for updating the current user's profile
+ * Wraps the updateProfile Server Action with React state management
+ */
+export function useUpdateProfile(form?: FormErrorTarget<ProfileFormData>) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const updateProfileAction = async (data: ProfileFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await updateProfile(data.name);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (!(form && applyFieldErrors(form, result.fieldErrors))) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      queryClient.setQueryData(sessionQueryKey, result.user);
+      return { data: result.user };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    updateProfile: updateProfileAction,
+    isLoading,
+    error,
+  };
+}
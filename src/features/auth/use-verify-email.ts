@@ -0,0 +1,51 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { confirmVerification } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { toErrorMessage } from "@/shared/lib/errors";
+
+/**
+ * Custom hook for confirming an email from a verification link
+ * Wraps the confirmVerification Server Action with React state management
+ */
+export function useVerifyEmail(token: string) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isVerified, setIsVerified] = useState(false);
+
+  const verifyAction = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await confirmVerification(token);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      setIsVerified(true);
+      // Pick up the refreshed `verified` flag
+      queryClient.invalidateQueries({ queryKey: sessionQueryKey });
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    verify: verifyAction,
+    isLoading,
+    isVerified,
+    error,
+  };
+}
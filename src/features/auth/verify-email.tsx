@@ -0,0 +1,40 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/shared/ui/button";
+import { useVerifyEmail } from "./use-verify-email";
+
+/**
+ * Confirms the email on click rather than on load,
+ * so link scanners in mail clients can't consume the token
+ */
+export function VerifyEmail({ token }: { token: string }) {
+  const { verify, isLoading, isVerified, error } = useVerifyEmail(token);
+
+  if (isVerified) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          Your email has been verified.
+        </p>
+        <Button asChild className="w-full">
+          <Link href="/">Continue</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <Button
+        className="w-full"
+        disabled={isLoading}
+        onClick={() => verify()}
+        type="button"
+      >
+        {isLoading ? "Verifying..." : "Verify email"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { Button } from "@/shared/ui/button";
+import { useAcceptInvitation } from "./use-accept-invitation";
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+export function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const { accept, isLoading, error } = useAcceptInvitation();
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+      <Button
+        className="w-full"
+        disabled={isLoading}
+        onClick={() => accept(token)}
+      >
+        {isLoading ? "Joining..." : "Accept invitation"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import {
+  type CreateOrganizationFormData,
+  createOrganizationSchema,
+} from "./schemas";
+import { useCreateOrganization } from "./use-create-organization";
+
+export function CreateOrganizationForm() {
+  const form = useForm<CreateOrganizationFormData>({
+    resolver: zodResolver(createOrganizationSchema),
+    defaultValues: {
+      name: "",
+    },
+  });
+  const { createOrganization, isLoading, error } = useCreateOrganization(form);
+
+  async function onSubmit(data: CreateOrganizationFormData) {
+    const result = await createOrganization(data);
+    if ("data" in result) {
+      form.reset();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="organization"
+                  placeholder="Acme"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Creating..." : "Create organization"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
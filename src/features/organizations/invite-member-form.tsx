@@ -0,0 +1,91 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { InvitationsRoleOptions } from "@/shared/db/types";
+import { Button } from "@/shared/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/shared/ui/form";
+import { Input } from "@/shared/ui/input";
+import { NativeSelect, NativeSelectOption } from "@/shared/ui/native-select";
+import { type InviteMemberFormData, inviteMemberSchema } from "./schemas";
+import { useInviteMember } from "./use-invite-member";
+
+export function InviteMemberForm() {
+  const form = useForm<InviteMemberFormData>({
+    resolver: zodResolver(inviteMemberSchema),
+    defaultValues: {
+      email: "",
+      role: InvitationsRoleOptions.member,
+    },
+  });
+  const { invite, isLoading, sentTo, error } = useInviteMember(form);
+
+  async function onSubmit(data: InviteMemberFormData) {
+    const result = await invite(data);
+    if ("data" in result) {
+      form.reset();
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <div className="flex gap-3">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="teammate@example.com"
+                    type="email"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem className="w-32">
+                <FormLabel>Role</FormLabel>
+                <FormControl>
+                  <NativeSelect {...field}>
+                    <NativeSelectOption value={InvitationsRoleOptions.member}>
+                      Member
+                    </NativeSelectOption>
+                    <NativeSelectOption value={InvitationsRoleOptions.admin}>
+                      Admin
+                    </NativeSelectOption>
+                  </NativeSelect>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {sentTo && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            Invitation sent to {sentTo}
+          </p>
+        )}
+        <Button className="w-full" disabled={isLoading} type="submit">
+          {isLoading ? "Sending..." : "Send invitation"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
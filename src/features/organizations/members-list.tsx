@@ -0,0 +1,134 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useCollectionList } from "@/shared/api/use-collection-list";
+import {
+  useDeleteRecord,
+  useUpdateRecord,
+} from "@/shared/api/use-record-mutations";
+import { pbBrowser } from "@/shared/db/browser";
+import {
+  Collections,
+  type MembershipsResponse,
+  MembershipsRoleOptions,
+  type UsersResponse,
+} from "@/shared/db/types";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { invalidateOrganizationData } from "@/shared/organizations/client";
+import { Button } from "@/shared/ui/button";
+import { NativeSelect, NativeSelectOption } from "@/shared/ui/native-select";
+
+interface MembersListProps {
+  /** Membership of the signed-in user in the listed organization */
+  membership: MembershipsResponse;
+}
+
+/**
+ * Members of the active organization
+ * Owners and admins can change roles and remove members, everyone but
+ * the owner can leave. The memberships API rules enforce the same.
+ */
+export function MembersList({ membership }: MembersListProps) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useCollectionList(Collections.Memberships, {
+    filter: pbBrowser.filter("organization = {:organization}", {
+      organization: membership.organization,
+    }),
+    expand: "user",
+    sort: "created",
+  });
+  const updateRole = useUpdateRecord(Collections.Memberships);
+  const remove = useDeleteRecord(Collections.Memberships);
+
+  // Leaving drops the active organization
+  const handleLeft = async () => {
+    await invalidateOrganizationData(queryClient);
+    router.refresh();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  const canManage = membership.role !== MembershipsRoleOptions.member;
+  const isBusy = updateRole.isPending || remove.isPending;
+  const error = updateRole.error ?? remove.error;
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {data?.items.map((member) => {
+          const user = (member.expand as { user?: UsersResponse } | undefined)
+            ?.user;
+          const isOwner = member.role === MembershipsRoleOptions.owner;
+          const isSelf = member.id === membership.id;
+
+          return (
+            <li
+              className="flex items-center justify-between gap-3 py-3"
+              key={member.id}
+            >
+              <div className="min-w-0">
+                <p className="truncate font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                  {user?.name || user?.email || "Unknown user"}
+                  {isSelf && " (you)"}
+                </p>
+                <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                  {user?.email}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {canManage && !isOwner ? (
+                  <NativeSelect
+                    aria-label="Role"
+                    className="h-8 w-28"
+                    disabled={isBusy}
+                    onChange={(event) =>
+                      updateRole.mutate({
+                        id: member.id,
+                        data: {
+                          role: event.target.value as MembershipsRoleOptions,
+                        },
+                      })
+                    }
+                    value={member.role}
+                  >
+                    <NativeSelectOption value={MembershipsRoleOptions.member}>
+                      Member
+                    </NativeSelectOption>
+                    <NativeSelectOption value={MembershipsRoleOptions.admin}>
+                      Admin
+                    </NativeSelectOption>
+                  </NativeSelect>
+                ) : (
+                  <span className="text-xs text-zinc-500 capitalize dark:text-zinc-400">
+                    {member.role}
+                  </span>
+                )}
+                {!isOwner && (canManage || isSelf) && (
+                  <Button
+                    disabled={isBusy}
+                    onClick={() =>
+                      remove.mutate(member.id, {
+                        onSuccess: isSelf ? handleLeft : undefined,
+                      })
+                    }
+                    size="sm"
+                    variant="outline"
+                  >
+                    {isSelf ? "Leave" : "Remove"}
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="text-red-500 text-sm">{toErrorMessage(error)}</p>}
+    </div>
+  );
+}
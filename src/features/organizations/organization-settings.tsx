@@ -0,0 +1,85 @@
+"use client";
+
+import { MembershipsRoleOptions } from "@/shared/db/types";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/shared/ui/card";
+import { CreateOrganizationForm } from "./create-organization-form";
+import { InviteMemberForm } from "./invite-member-form";
+import { MembersList } from "./members-list";
+import { PendingInvitations } from "./pending-invitations";
+import { useOrganizations } from "./use-organizations";
+
+/**
+ * Members and invitations of the active organization
+ * Falls back to creating one when no organization is selected
+ */
+export function OrganizationSettings() {
+  const { active, isLoading } = useOrganizations();
+
+  if (isLoading) {
+    return (
+      <div className="h-48 w-full animate-pulse rounded-xl bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  const createCard = (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {active ? "Create another organization" : "Create an organization"}
+        </CardTitle>
+        <CardDescription>
+          Organizations share their records with every member
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CreateOrganizationForm />
+      </CardContent>
+    </Card>
+  );
+
+  if (!active) {
+    return createCard;
+  }
+
+  const canManage = active.role !== MembershipsRoleOptions.member;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>{active.expand.organization.name}</CardTitle>
+          <CardDescription>
+            You are {active.role === MembershipsRoleOptions.admin ? "an" : "a"}{" "}
+            {active.role} of this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MembersList membership={active} />
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invite members</CardTitle>
+            <CardDescription>
+              Invitations are sent by email and expire after 7 days
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <InviteMemberForm />
+            <PendingInvitations />
+          </CardContent>
+        </Card>
+      )}
+
+      {createCard}
+    </>
+  );
+}
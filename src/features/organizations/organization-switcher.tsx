@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import { NativeSelect, NativeSelectOption } from "@/shared/ui/native-select";
+import { useOrganizations } from "./use-organizations";
+import { useSwitchOrganization } from "./use-switch-organization";
+
+/**
+ * Select for the active organization, shown in the user menu
+ */
+export function OrganizationSwitcher() {
+  const { memberships, active, isLoading } = useOrganizations();
+  const { switchOrganization, isLoading: isSwitching } =
+    useSwitchOrganization();
+
+  if (isLoading) {
+    return (
+      <div className="h-8 w-32 animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  if (memberships.length === 0) {
+    return (
+      <Link
+        className="text-sm text-zinc-600 hover:underline dark:text-zinc-400"
+        href="/organization"
+      >
+        Create organization
+      </Link>
+    );
+  }
+
+  return (
+    <NativeSelect
+      aria-label="Active organization"
+      className="h-8 w-40"
+      disabled={isSwitching}
+      onChange={(event) => switchOrganization(event.target.value)}
+      value={active?.organization ?? ""}
+    >
+      {!active && (
+        <NativeSelectOption disabled value="">
+          Select organization
+        </NativeSelectOption>
+      )}
+      {memberships.map((membership) => (
+        <NativeSelectOption key={membership.id} value={membership.organization}>
+          {membership.expand.organization.name}
+        </NativeSelectOption>
+      ))}
+    </NativeSelect>
+  );
+}
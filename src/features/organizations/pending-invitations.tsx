@@ -0,0 +1,65 @@
+"use client";
+
+import { useCollectionList } from "@/shared/api/use-collection-list";
+import { useDeleteRecord } from "@/shared/api/use-record-mutations";
+import { Collections } from "@/shared/db/types";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { Button } from "@/shared/ui/button";
+
+/**
+ * Invitations of the active organization that were not accepted yet
+ * Only listed for owners and admins by the invitations API rules
+ */
+export function PendingInvitations() {
+  const { data, isLoading } = useCollectionList(Collections.Invitations, {
+    sort: "-created",
+  });
+  const revoke = useDeleteRecord(Collections.Invitations);
+
+  if (isLoading) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  if (!data?.items.length) {
+    return (
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        No pending invitations.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {data.items.map((invitation) => (
+          <li
+            className="flex items-center justify-between gap-3 py-3"
+            key={invitation.id}
+          >
+            <div className="min-w-0">
+              <p className="truncate font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                {invitation.email}
+              </p>
+              <p className="text-xs text-zinc-500 capitalize dark:text-zinc-400">
+                {invitation.role}
+              </p>
+            </div>
+            <Button
+              disabled={revoke.isPending}
+              onClick={() => revoke.mutate(invitation.id)}
+              size="sm"
+              variant="outline"
+            >
+              Revoke
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {revoke.error && (
+        <p className="text-red-500 text-sm">{toErrorMessage(revoke.error)}</p>
+      )}
+    </div>
+  );
+}
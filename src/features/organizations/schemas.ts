@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { InvitationsRoleOptions } from "@/shared/db/types";
+
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Please enter a name")
+    .max(100, "Name must be at most 100 characters"),
+});
+
+export const inviteMemberSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+  role: z.enum(InvitationsRoleOptions),
+});
+
+export type CreateOrganizationFormData = z.infer<
+  typeof createOrganizationSchema
+>;
+export type InviteMemberFormData = z.infer<typeof inviteMemberSchema>;
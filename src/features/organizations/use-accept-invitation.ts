@@ -0,0 +1,47 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { acceptInvitation } from "@/shared/organizations/actions";
+import { invalidateOrganizationData } from "@/shared/organizations/client";
+
+/**
+ * Custom hook for accepting an organization invitation
+ * Wraps the acceptInvitation Server Action with React state management
+ */
+export function useAcceptInvitation() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const acceptAction = async (token: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await acceptInvitation(token);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      await invalidateOrganizationData(queryClient);
+      router.push("/organization");
+      return { data: result.organization };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    accept: acceptAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import { createOrganization } from "@/shared/organizations/actions";
+import { invalidateOrganizationData } from "@/shared/organizations/client";
+import type { CreateOrganizationFormData } from "./schemas";
+
+/**
+ * Custom hook for creating an organization
+ * Wraps the createOrganization Server Action with React state management
+ */
+export function useCreateOrganization(
+  form?: FormErrorTarget<CreateOrganizationFormData>
+) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const createAction = async (data: CreateOrganizationFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await createOrganization(data.name);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (!(form && applyFieldErrors(form, result.fieldErrors))) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      await invalidateOrganizationData(queryClient);
+      router.refresh();
+      return { data: result.organization };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    createOrganization: createAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { collectionKeys } from "@/shared/api/query-keys";
+import { Collections } from "@/shared/db/types";
+import { toErrorMessage } from "@/shared/lib/errors";
+import {
+  applyFieldErrors,
+  type FormErrorTarget,
+} from "@/shared/lib/form-errors";
+import { inviteMember } from "@/shared/organizations/actions";
+import type { InviteMemberFormData } from "./schemas";
+
+/**
+ * Custom hook for inviting someone to the active organization
+ * Wraps the inviteMember Server Action with React state management
+ */
+export function useInviteMember(form?: FormErrorTarget<InviteMemberFormData>) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const inviteAction = async (data: InviteMemberFormData) => {
+    setIsLoading(true);
+    setError(null);
+    setSentTo(null);
+
+    try {
+      const result = await inviteMember(data.email, data.role);
+      if ("error" in result) {
+        // Field errors show under their inputs, the rest above the button
+        if (!(form && applyFieldErrors(form, result.fieldErrors))) {
+          setError(result.error);
+        }
+        return { error: result.error };
+      }
+      setSentTo(data.email);
+      queryClient.invalidateQueries({
+        queryKey: collectionKeys.lists(Collections.Invitations),
+      });
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    invite: inviteAction,
+    isLoading,
+    sentTo,
+    error,
+  };
+}
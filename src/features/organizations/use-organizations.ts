@@ -0,0 +1,32 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import {
+  fetchOrganizations,
+  organizationsQueryKey,
+} from "@/shared/organizations/client";
+import { useAuth } from "@/shared/providers/auth-provider";
+
+/**
+ * Organizations of the signed-in user and the active membership
+ */
+export function useOrganizations() {
+  const { user } = useAuth();
+  const { data, isPending } = useQuery({
+    queryKey: organizationsQueryKey(user?.id ?? ""),
+    queryFn: fetchOrganizations,
+    enabled: Boolean(user),
+  });
+
+  const memberships = data?.memberships ?? [];
+  const active =
+    memberships.find(
+      (membership) => membership.organization === data?.activeOrganizationId
+    ) ?? null;
+
+  return {
+    memberships,
+    active,
+    isLoading: Boolean(user) && isPending,
+  };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { switchOrganization } from "@/shared/organizations/actions";
+import { invalidateOrganizationData } from "@/shared/organizations/client";
+
+/**
+ * Custom hook for switching the active organization
+ * Wraps the switchOrganization Server Action with React state management
+ */
+export function useSwitchOrganization() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const switchAction = async (organizationId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await switchOrganization(organizationId);
+      if ("error" in result) {
+        setError(result.error);
+        return { error: result.error };
+      }
+      await invalidateOrganizationData(queryClient);
+      router.refresh();
+      return { data: true };
+    } catch (err) {
+      const message = toErrorMessage(err);
+      setError(message);
+      return { error: err };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    switchOrganization: switchAction,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { Upload } from "lucide-react";
+import { type ChangeEvent, type DragEvent, useRef, useState } from "react";
+import { UPLOAD_TYPES } from "@/shared/files/uploads";
+import { cn } from "@/shared/lib/utils";
+import { buttonVariants } from "@/shared/ui/button";
+import { UploadList } from "./upload-list";
+import { useFileUploads } from "./use-file-uploads";
+
+/**
+ * Drop or pick files to upload them to R2
+ * Each file shows its progress and can be cancelled or retried
+ */
+export function Dropzone() {
+  const { uploads, addFiles, cancel, retry, remove } = useFileUploads();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDragOver = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(event.dataTransfer.files);
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same files again
+    event.target.value = "";
+    addFiles(files);
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        accept={UPLOAD_TYPES.join(",")}
+        className="hidden"
+        multiple
+        onChange={handleChange}
+        ref={inputRef}
+        type="file"
+      />
+      {/* The whole zone is a button, so it can be focused and clicked too */}
+      <button
+        className={cn(
+          "flex w-full flex-col items-center gap-3 rounded-xl border-2 border-dashed px-6 py-10 text-center outline-none transition-colors focus-visible:ring-[3px] focus-visible:ring-ring/50",
+          isDragging
+            ? "border-zinc-900 bg-zinc-100 dark:border-zinc-100 dark:bg-zinc-900"
+            : "border-zinc-300 dark:border-zinc-700"
+        )}
+        onClick={() => inputRef.current?.click()}
+        onDragLeave={() => setIsDragging(false)}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        type="button"
+      >
+        <Upload className="size-8 text-zinc-400" />
+        <span className="text-sm text-zinc-600 dark:text-zinc-400">
+          Drag files here, or
+        </span>
+        <span className={buttonVariants({ size: "sm", variant: "outline" })}>
+          Choose files
+        </span>
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          Images, PDF, text, CSV, ZIP or MP4, up to 100 MB
+        </span>
+      </button>
+
+      {uploads.length > 0 && (
+        <UploadList
+          onCancel={cancel}
+          onRemove={remove}
+          onRetry={retry}
+          uploads={uploads}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useCollectionList } from "@/shared/api/use-collection-list";
+import { useRealtimeCollection } from "@/shared/api/use-realtime-collection";
+import { Collections } from "@/shared/db/types";
+import { getFileUrl } from "@/shared/files/file-url";
+import { formatBytes } from "@/shared/lib/utils";
+import { Button } from "@/shared/ui/button";
+
+/**
+ * Recent files of the current user and their organization
+ * Kept live, so uploads from other members and tabs show up right away
+ */
+export function FilesList() {
+  useRealtimeCollection(Collections.Files);
+  const { data, isLoading } = useCollectionList(Collections.Files, {
+    sort: "-created",
+    perPage: 20,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-9 w-full animate-pulse rounded-md bg-zinc-200 dark:bg-zinc-800" />
+    );
+  }
+
+  if (!data?.items.length) {
+    return (
+      <p className="text-sm text-zinc-500 dark:text-zinc-400">
+        No files uploaded yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+      {data.items.map((file) => (
+        <li className="flex items-center gap-3 py-3" key={file.id}>
+          <div className="min-w-0 flex-1">
+            <a
+              className="block truncate font-medium text-sm text-zinc-900 hover:underline dark:text-zinc-100"
+              href={getFileUrl(file.key)}
+              rel="noopener"
+              target="_blank"
+            >
+              {file.name}
+            </a>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              {formatBytes(file.size)} ·{" "}
+              {new Date(file.created).toLocaleString()}
+            </p>
+          </div>
+          <Button asChild size="sm" variant="outline">
+            <a href={getFileUrl(file.key, { download: true })}>Download</a>
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
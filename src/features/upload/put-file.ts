@@ -0,0 +1,47 @@
+interface PutFileOptions {
+  /** Called with the uploaded fraction, from 0 to 1 */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * PUT a file to a presigned URL
+ * Uses XHR since fetch doesn't report upload progress
+ * @throws An AbortError when the signal aborts the upload
+ */
+export function putFile(
+  url: string,
+  file: File,
+  { onProgress, signal }: PutFileOptions = {}
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    // Must match the content type the URL was signed with
+    xhr.setRequestHeader("Content-Type", file.type);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () =>
+      reject(new Error("Upload failed, check your connection"));
+    xhr.onabort = () =>
+      reject(new DOMException("Upload cancelled", "AbortError"));
+
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"));
+      return;
+    }
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+}
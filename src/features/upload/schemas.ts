@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { uploadInfoSchema } from "@/shared/files/uploads";
+
+/**
+ * A picked file, checked against the rules the upload Server Actions apply
+ */
+export const uploadFileSchema = z
+  .instanceof(File)
+  .transform((file) => ({ name: file.name, type: file.type, size: file.size }))
+  .pipe(uploadInfoSchema);
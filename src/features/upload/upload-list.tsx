@@ -0,0 +1,95 @@
+"use client";
+
+import { RotateCw, X } from "lucide-react";
+import { cn, formatBytes } from "@/shared/lib/utils";
+import { Button } from "@/shared/ui/button";
+import { Progress } from "@/shared/ui/progress";
+import type { FileUpload, UploadStatus } from "./use-file-uploads";
+
+const statusLabels: Record<UploadStatus, string> = {
+  uploading: "Uploading",
+  done: "Uploaded",
+  error: "Failed",
+  cancelled: "Cancelled",
+  rejected: "Not allowed",
+};
+
+interface UploadListProps {
+  uploads: FileUpload[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Files picked in the dropzone with their progress
+ */
+export function UploadList({
+  uploads,
+  onCancel,
+  onRetry,
+  onRemove,
+}: UploadListProps) {
+  return (
+    <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+      {uploads.map((upload) => (
+        <li className="flex items-center gap-3 py-3" key={upload.id}>
+          <div className="min-w-0 flex-1 space-y-1.5">
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="truncate font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                {upload.file.name}
+              </p>
+              <span className="shrink-0 text-xs text-zinc-500 dark:text-zinc-400">
+                {upload.status === "uploading"
+                  ? `${Math.round(upload.progress * 100)}%`
+                  : statusLabels[upload.status]}{" "}
+                · {formatBytes(upload.file.size)}
+              </span>
+            </div>
+            {upload.status === "uploading" && (
+              <Progress value={upload.progress * 100} />
+            )}
+            {upload.error && (
+              <p
+                className={cn(
+                  "text-sm",
+                  upload.status === "rejected"
+                    ? "text-zinc-500 dark:text-zinc-400"
+                    : "text-red-500"
+                )}
+              >
+                {upload.error}
+              </p>
+            )}
+          </div>
+          {(upload.status === "error" || upload.status === "cancelled") && (
+            <Button
+              aria-label={`Retry ${upload.file.name}`}
+              onClick={() => onRetry(upload.id)}
+              size="icon-sm"
+              variant="ghost"
+            >
+              <RotateCw />
+            </Button>
+          )}
+          <Button
+            aria-label={
+              upload.status === "uploading"
+                ? `Cancel ${upload.file.name}`
+                : `Remove ${upload.file.name}`
+            }
+            onClick={() =>
+              upload.status === "uploading"
+                ? onCancel(upload.id)
+                : onRemove(upload.id)
+            }
+            size="icon-sm"
+            variant="ghost"
+          >
+            <X />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
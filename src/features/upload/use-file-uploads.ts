@@ -0,0 +1,131 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useRef, useState } from "react";
+import { collectionKeys } from "@/shared/api/query-keys";
+import { Collections, type FilesResponse } from "@/shared/db/types";
+import { createUpload, recordUpload } from "@/shared/files/actions";
+import { toErrorMessage } from "@/shared/lib/errors";
+import { putFile } from "./put-file";
+import { uploadFileSchema } from "./schemas";
+
+export type UploadStatus =
+  | "uploading"
+  | "done"
+  | "error"
+  | "cancelled"
+  | "rejected";
+
+export interface FileUpload {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  /** Uploaded fraction, from 0 to 1 */
+  progress: number;
+  error: string | null;
+  /** The `files` record, once recorded */
+  record: FilesResponse | null;
+}
+
+/**
+ * Custom hook uploading files to R2 with per-file progress
+ * Wraps the createUpload and recordUpload Server Actions: each file is
+ * validated, PUT to a presigned URL, then recorded in `files`
+ */
+export function useFileUploads() {
+  const queryClient = useQueryClient();
+  const [uploads, setUploads] = useState<FileUpload[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const update = (id: string, change: Partial<FileUpload>) =>
+    setUploads((current) =>
+      current.map((upload) =>
+        upload.id === id ? { ...upload, ...change } : upload
+      )
+    );
+
+  const start = async (id: string, file: File) => {
+    // Checked here too, to skip uploading files the server would reject
+    const parsed = uploadFileSchema.safeParse(file);
+    if (!parsed.success) {
+      update(id, { status: "rejected", error: parsed.error.issues[0].message });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    update(id, { status: "uploading", progress: 0, error: null });
+
+    try {
+      const target = await createUpload(parsed.data);
+      if ("error" in target) {
+        update(id, { status: "error", error: target.error });
+        return;
+      }
+
+      await putFile(target.url, file, {
+        signal: controller.signal,
+        onProgress: (progress) => update(id, { progress }),
+      });
+
+      const result = await recordUpload(target.key, parsed.data);
+      if ("error" in result) {
+        update(id, { status: "error", error: result.error });
+        return;
+      }
+      update(id, { status: "done", progress: 1, record: result.file });
+      queryClient.invalidateQueries({
+        queryKey: collectionKeys.all(Collections.Files),
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        update(id, { status: "cancelled", error: null });
+      } else {
+        update(id, { status: "error", error: toErrorMessage(err) });
+      }
+    } finally {
+      controllers.current.delete(id);
+    }
+  };
+
+  const addFilesAction = (files: Iterable<File>) => {
+    for (const file of files) {
+      const id = crypto.randomUUID();
+      setUploads((current) => [
+        ...current,
+        {
+          id,
+          file,
+          status: "uploading",
+          progress: 0,
+          error: null,
+          record: null,
+        },
+      ]);
+      start(id, file);
+    }
+  };
+
+  const cancelAction = (id: string) => controllers.current.get(id)?.abort();
+
+  const retryAction = (id: string) => {
+    const upload = uploads.find((u) => u.id === id);
+    if (upload) {
+      start(id, upload.file);
+    }
+  };
+
+  const removeAction = (id: string) => {
+    cancelAction(id);
+    setUploads((current) => current.filter((upload) => upload.id !== id));
+  };
+
+  return {
+    uploads,
+    addFiles: addFilesAction,
+    cancel: cancelAction,
+    retry: retryAction,
+    remove: removeAction,
+    isUploading: uploads.some((upload) => upload.status === "uploading"),
+  };
+}
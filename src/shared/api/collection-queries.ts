@@ -0,0 +1,55 @@
+import { infiniteQueryOptions, queryOptions } from "@tanstack/react-query";
+import type { Collections, TypedPocketBase } from "@/shared/db/types";
+import {
+  collectionKeys,
+  type ListQueryOptions,
+  type RecordQueryOptions,
+} from "./query-keys";
+
+/**
+ * Query options for PocketBase collections
+ * Shared by client hooks (with pbBrowser) and server prefetching
+ * (with createServerClient), so both use the same keys.
+ */
+
+const DEFAULT_PER_PAGE = 30;
+
+export const collectionListQuery = <C extends Collections>(
+  pb: TypedPocketBase,
+  collection: C,
+  options: ListQueryOptions = {}
+) => {
+  const { page = 1, perPage = DEFAULT_PER_PAGE, ...listOptions } = options;
+  return queryOptions({
+    queryKey: collectionKeys.list(collection, options),
+    queryFn: () =>
+      pb.collection(collection).getList(page, perPage, listOptions),
+  });
+};
+
+export const infiniteCollectionListQuery = <C extends Collections>(
+  pb: TypedPocketBase,
+  collection: C,
+  options: Omit<ListQueryOptions, "page"> = {}
+) => {
+  const { perPage = DEFAULT_PER_PAGE, ...listOptions } = options;
+  return infiniteQueryOptions({
+    queryKey: collectionKeys.infinite(collection, options),
+    queryFn: ({ pageParam }) =>
+      pb.collection(collection).getList(pageParam, perPage, listOptions),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page < lastPage.totalPages ? lastPage.page + 1 : undefined,
+  });
+};
+
+export const recordQuery = <C extends Collections>(
+  pb: TypedPocketBase,
+  collection: C,
+  id: string,
+  options: RecordQueryOptions = {}
+) =>
+  queryOptions({
+    queryKey: collectionKeys.detail(collection, id, options),
+    queryFn: () => pb.collection(collection).getOne(id, options),
+  });
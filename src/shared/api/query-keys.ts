@@ -0,0 +1,50 @@
+import type { Collections } from "@/shared/db/types";
+
+/**
+ * Options shared by every collection query
+ * Passed straight to the PocketBase SDK
+ */
+export interface RecordQueryOptions {
+  /** Relations to expand, e.g. "author,comments_via_post" */
+  expand?: string;
+  /** Fields to return, e.g. "id,title,expand.author.name" */
+  fields?: string;
+}
+
+export interface ListQueryOptions extends RecordQueryOptions {
+  /** PocketBase filter, e.g. 'status = "published"' */
+  filter?: string;
+  /** Sort fields, e.g. "-created,title" */
+  sort?: string;
+  page?: number;
+  perPage?: number;
+}
+
+/**
+ * Query key factory for PocketBase collections
+ * Invalidating `all(collection)` refreshes every list and record of it,
+ * and `root` those of every collection
+ *
+ * @example
+ * queryClient.invalidateQueries({ queryKey: collectionKeys.lists(Collections.Users) });
+ */
+export const collectionKeys = {
+  root: ["collections"] as const,
+  all: (collection: Collections) =>
+    [...collectionKeys.root, collection] as const,
+  lists: (collection: Collections) =>
+    [...collectionKeys.all(collection), "list"] as const,
+  list: (collection: Collections, options: ListQueryOptions = {}) =>
+    [...collectionKeys.lists(collection), options] as const,
+  infinite: (
+    collection: Collections,
+    options: Omit<ListQueryOptions, "page"> = {}
+  ) => [...collectionKeys.lists(collection), "infinite", options] as const,
+  details: (collection: Collections) =>
+    [...collectionKeys.all(collection), "detail"] as const,
+  detail: (
+    collection: Collections,
+    id: string,
+    options: RecordQueryOptions = {}
+  ) => [...collectionKeys.details(collection), id, options] as const,
+};
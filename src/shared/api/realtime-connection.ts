@@ -0,0 +1,149 @@
+"use client";
+
+import type { UnsubscribeFunc } from "pocketbase";
+import { useSyncExternalStore } from "react";
+import { pbBrowser } from "@/shared/db/browser";
+
+/**
+ * Shared realtime (SSE) connection of pbBrowser
+ *
+ * Every useRealtimeCollection hook acquires the connection while mounted.
+ * The first consumer opens it (retrying with exponential backoff when
+ * PocketBase is unreachable) and the last one closes it. Dropped
+ * connections are retried by the SDK itself.
+ */
+
+/**
+ * - idle: nothing is subscribed
+ * - connecting: first connection attempt in progress
+ * - connected: events are flowing
+ * - reconnecting: connection failed or dropped, retrying
+ */
+export type RealtimeStatus =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting";
+
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30 * 1000;
+
+let status: RealtimeStatus = "idle";
+const statusListeners = new Set<() => void>();
+const reconnectListeners = new Set<() => void>();
+
+let consumers = 0;
+// Bumped on close, so pending retries of a previous connection stop
+let generation = 0;
+let connection: Promise<void> | null = null;
+let closeConnection: UnsubscribeFunc | undefined;
+
+function setStatus(next: RealtimeStatus) {
+  if (status === next) {
+    return;
+  }
+  status = next;
+  for (const listener of statusListeners) {
+    listener();
+  }
+}
+
+function handleConnect() {
+  const isReconnect = status === "reconnecting";
+  setStatus("connected");
+  if (isReconnect) {
+    for (const listener of reconnectListeners) {
+      listener();
+    }
+  }
+}
+
+// Only called after an established connection was lost or closed
+pbBrowser.realtime.onDisconnect = (activeSubscriptions) => {
+  setStatus(activeSubscriptions.length > 0 ? "reconnecting" : "idle");
+};
+
+const wait = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+async function connect(current: number, attempt = 0): Promise<void> {
+  if (current !== generation) {
+    return;
+  }
+  setStatus(attempt === 0 ? "connecting" : "reconnecting");
+
+  try {
+    // PB_CONNECT fires on every (re)connect and keeps the connection open
+    const unsubscribe = await pbBrowser.realtime.subscribe(
+      "PB_CONNECT",
+      handleConnect
+    );
+    if (current === generation) {
+      closeConnection = unsubscribe;
+    } else {
+      await unsubscribe();
+    }
+  } catch {
+    // A failed first connect leaves the listener registered
+    await pbBrowser.realtime.unsubscribe("PB_CONNECT");
+    await wait(Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY));
+    return connect(current, attempt + 1);
+  }
+}
+
+/**
+ * Open the shared connection, or join it when it is already open
+ * @returns A promise resolving once the connection is established
+ */
+export function acquireRealtimeConnection() {
+  consumers += 1;
+  connection ??= connect(generation);
+  return connection;
+}
+
+/**
+ * Leave the shared connection, closing it after the last consumer
+ * Unsubscribe from your topics first, so the SDK closes the SSE stream
+ */
+export function releaseRealtimeConnection() {
+  consumers -= 1;
+  if (consumers > 0) {
+    return;
+  }
+  generation += 1;
+  connection = null;
+  closeConnection?.();
+  closeConnection = undefined;
+  setStatus("idle");
+}
+
+/**
+ * Listen for reconnects, after which events sent while offline are lost
+ * @returns A function removing the listener
+ */
+export function onRealtimeReconnect(listener: () => void) {
+  reconnectListeners.add(listener);
+  return () => {
+    reconnectListeners.delete(listener);
+  };
+}
+
+const subscribeStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+/**
+ * Current realtime connection state, for connection indicators
+ */
+export function useRealtimeStatus() {
+  return useSyncExternalStore(
+    subscribeStatus,
+    () => status,
+    (): RealtimeStatus => "idle"
+  );
+}
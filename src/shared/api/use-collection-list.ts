@@ -0,0 +1,24 @@
+"use client";
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { pbBrowser } from "@/shared/db/browser";
+import type { Collections } from "@/shared/db/types";
+import { collectionListQuery } from "./collection-queries";
+import type { ListQueryOptions } from "./query-keys";
+
+/**
+ * Paginated list of records from a PocketBase collection
+ * Keeps the previous page visible while the next one loads
+ *
+ * @example
+ * const { data } = useCollectionList(Collections.Users, { sort: "-created" });
+ */
+export function useCollectionList<C extends Collections>(
+  collection: C,
+  options?: ListQueryOptions
+) {
+  return useQuery({
+    ...collectionListQuery(pbBrowser, collection, options),
+    placeholderData: keepPreviousData,
+  });
+}
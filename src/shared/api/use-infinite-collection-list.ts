@@ -0,0 +1,20 @@
+"use client";
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { pbBrowser } from "@/shared/db/browser";
+import type { Collections } from "@/shared/db/types";
+import { infiniteCollectionListQuery } from "./collection-queries";
+import type { ListQueryOptions } from "./query-keys";
+
+/**
+ * Infinite list of records from a PocketBase collection
+ * Call `fetchNextPage()` to load more while `hasNextPage` is true
+ */
+export function useInfiniteCollectionList<C extends Collections>(
+  collection: C,
+  options?: Omit<ListQueryOptions, "page">
+) {
+  return useInfiniteQuery(
+    infiniteCollectionListQuery(pbBrowser, collection, options)
+  );
+}
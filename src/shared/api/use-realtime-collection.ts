@@ -0,0 +1,155 @@
+"use client";
+
+import {
+  type InfiniteData,
+  type QueryClient,
+  useQueryClient,
+} from "@tanstack/react-query";
+import type {
+  ListResult,
+  RecordSubscription,
+  UnsubscribeFunc,
+} from "pocketbase";
+import { useEffect } from "react";
+import { pbBrowser } from "@/shared/db/browser";
+import type { CollectionResponses, Collections } from "@/shared/db/types";
+import { useAuth } from "@/shared/providers/auth-provider";
+import { collectionKeys } from "./query-keys";
+import {
+  acquireRealtimeConnection,
+  onRealtimeReconnect,
+  releaseRealtimeConnection,
+} from "./realtime-connection";
+
+type ListData<T> = ListResult<T> | InfiniteData<ListResult<T>>;
+
+function patchPage<T extends { id: string }>(
+  page: ListResult<T>,
+  { action, record }: RecordSubscription<T>
+): ListResult<T> {
+  if (action === "delete") {
+    const items = page.items.filter((item) => item.id !== record.id);
+    return {
+      ...page,
+      items,
+      totalItems: page.totalItems - (page.items.length - items.length),
+    };
+  }
+  return {
+    ...page,
+    // Events carry no expand, so keep the expanded relations already loaded
+    items: page.items.map((item) =>
+      item.id === record.id ? { ...item, ...record } : item
+    ),
+  };
+}
+
+/**
+ * Apply a realtime event to the cached lists and records of a collection
+ * Created records are refetched, since their position depends on each
+ * list's sort and page
+ */
+function applyEvent<C extends Collections>(
+  queryClient: QueryClient,
+  collection: C,
+  event: RecordSubscription<CollectionResponses[C]>
+) {
+  if (event.action === "create") {
+    queryClient.invalidateQueries({
+      queryKey: collectionKeys.lists(collection),
+    });
+    return;
+  }
+
+  queryClient.setQueriesData<ListData<CollectionResponses[C]>>(
+    { queryKey: collectionKeys.lists(collection) },
+    (data) => {
+      if (!data) {
+        return data;
+      }
+      if ("pages" in data) {
+        return {
+          ...data,
+          pages: data.pages.map((page) => patchPage(page, event)),
+        };
+      }
+      return patchPage(data, event);
+    }
+  );
+
+  const detailKey = [...collectionKeys.details(collection), event.record.id];
+  if (event.action === "delete") {
+    queryClient.removeQueries({ queryKey: detailKey });
+    return;
+  }
+  queryClient.setQueriesData<CollectionResponses[C]>(
+    { queryKey: detailKey },
+    (data) => data && { ...data, ...event.record }
+  );
+}
+
+/**
+ * Keep the cached lists and records of a collection live
+ * Subscribes to PocketBase realtime through the /api/pocketbase proxy and
+ * writes create/update/delete events straight into the query cache.
+ *
+ * The subscription is renewed when the user signs in or out, so events
+ * always follow the API rules of the current user.
+ *
+ * @param filter - Only receive events for records matching this filter
+ *
+ * @example
+ * useRealtimeCollection(Collections.Posts, 'status = "published"');
+ * const { data } = useCollectionList(Collections.Posts);
+ */
+export function useRealtimeCollection<C extends Collections>(
+  collection: C,
+  filter?: string
+) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: userId re-subscribes with the new identity
+  useEffect(() => {
+    let active = true;
+    let unsubscribe: UnsubscribeFunc | undefined;
+
+    // Events sent while the connection was down are lost
+    const stopReconnect = onRealtimeReconnect(() =>
+      queryClient.invalidateQueries({
+        queryKey: collectionKeys.all(collection),
+      })
+    );
+
+    acquireRealtimeConnection()
+      .then(() =>
+        active
+          ? pbBrowser
+              .collection(collection)
+              .subscribe<CollectionResponses[C]>(
+                "*",
+                (event) => applyEvent(queryClient, collection, event),
+                { filter }
+              )
+          : undefined
+      )
+      .then((stop) => {
+        if (active) {
+          unsubscribe = stop;
+        } else {
+          stop?.();
+        }
+      })
+      .catch(() => {
+        // The connection was closed before the subscription was sent
+      });
+
+    return () => {
+      active = false;
+      stopReconnect();
+      unsubscribe?.();
+      releaseRealtimeConnection();
+    };
+  }, [collection, filter, queryClient, userId]);
+}
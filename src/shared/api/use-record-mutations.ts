@@ -0,0 +1,58 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { pbBrowser } from "@/shared/db/browser";
+import type { Collections, Create, Update } from "@/shared/db/types";
+import { collectionKeys } from "./query-keys";
+
+/**
+ * Mutation hooks for PocketBase collections
+ * Every mutation invalidates the collection's lists, so they refetch
+ */
+
+export function useCreateRecord<C extends Collections>(collection: C) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Create<C> | FormData) =>
+      pbBrowser.collection(collection).create(data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: collectionKeys.lists(collection),
+      }),
+  });
+}
+
+export function useUpdateRecord<C extends Collections>(collection: C) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Update<C> | FormData }) =>
+      pbBrowser.collection(collection).update(id, data),
+    onSuccess: (_record, { id }) =>
+      Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: collectionKeys.lists(collection),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: [...collectionKeys.details(collection), id],
+        }),
+      ]),
+  });
+}
+
+export function useDeleteRecord<C extends Collections>(collection: C) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => pbBrowser.collection(collection).delete(id),
+    onSuccess: (_deleted, id) => {
+      queryClient.removeQueries({
+        queryKey: [...collectionKeys.details(collection), id],
+      });
+      return queryClient.invalidateQueries({
+        queryKey: collectionKeys.lists(collection),
+      });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { pbBrowser } from "@/shared/db/browser";
+import type { Collections } from "@/shared/db/types";
+import { recordQuery } from "./collection-queries";
+import type { RecordQueryOptions } from "./query-keys";
+
+/**
+ * Single record from a PocketBase collection
+ * Disabled until an id is provided
+ */
+export function useRecord<C extends Collections>(
+  collection: C,
+  id: string | undefined,
+  options?: RecordQueryOptions
+) {
+  return useQuery({
+    ...recordQuery(pbBrowser, collection, id ?? "", options),
+    enabled: Boolean(id),
+  });
+}
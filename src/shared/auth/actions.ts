@@ -0,0 +1,656 @@
+"use server";
+
+import { cookies, headers } from "next/headers";
+import PocketBase, { ClientResponseError } from "pocketbase";
+import { z } from "zod";
+import { serverConfig } from "@/shared/config/server";
+import { createServerClient, getForwardedHeaders } from "@/shared/db/server";
+import type { TypedClient } from "@/shared/db/typed-client";
+import {
+  Collections,
+  type TypedPocketBase,
+  type UsersResponse,
+} from "@/shared/db/types";
+import {
+  type ErrorResult,
+  toErrorMessage,
+  toErrorResult,
+} from "@/shared/lib/errors";
+import { storage } from "@/shared/storage/storage";
+import { AVATAR_MAX_SIZE, AVATAR_TYPES } from "./avatar";
+import {
+  AUTH_COOKIE_NAME,
+  authCookieOptions,
+  getAuthCookieValue,
+  getTokenExpiry,
+} from "./cookie";
+import {
+  type AuthRateLimitAction,
+  authRateLimits,
+  limitAuthAttempt,
+  rateLimitMessage,
+} from "./rate-limits";
+import { getCurrentUser } from "./server";
+
+/**
+ * Auth Server Actions
+ * Talk to PocketBase server-side and keep the token in an httpOnly cookie
+ *
+ * Errors are returned instead of thrown, because thrown Server Action
+ * errors are redacted in production.
+ */
+
+/** Too many attempts, `retryAfter` is in seconds */
+export interface RateLimitedResult extends ErrorResult {
+  retryAfter: number;
+}
+
+export type AuthActionResult =
+  | { user: UsersResponse }
+  | ErrorResult
+  | RateLimitedResult;
+
+/** Second step of a sign in, when MFA is required for the user */
+export interface MfaChallenge {
+  mfaId: string;
+  otpId: string;
+  email: string;
+}
+
+export type SignInActionResult = AuthActionResult | { mfa: MfaChallenge };
+
+export type OtpActionResult =
+  | { otpId: string }
+  | ErrorResult
+  | RateLimitedResult;
+
+export type ActionResult = { success: true } | ErrorResult;
+
+/** `expired` when the change ended the session and the user must sign in */
+export type PasswordChangeResult = AuthActionResult | { expired: true };
+
+export type SessionActionResult =
+  | { user: UsersResponse; expiresAt: number }
+  | { expired: true }
+  | ErrorResult;
+
+const credentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+const signUpSchema = credentialsSchema.extend({
+  name: z.string().min(1),
+});
+
+const emailSchema = z.string().email();
+
+const nameSchema = z.string().trim().min(1).max(255);
+
+const passwordSchema = z.string().min(8);
+
+/**
+ * Anonymous client for the visitor of the current request
+ * Forwards their IP and user agent like `createServerClient`
+ */
+const createClient = async () => {
+  const pb = new PocketBase(
+    serverConfig.pocketbaseUrl
+  ) as TypedClient<UsersResponse>;
+  pb.autoCancellation(false);
+
+  const forwarded = await getForwardedHeaders();
+  pb.beforeSend = (url, options) => {
+    options.headers = { ...options.headers, ...forwarded };
+    return { url, options };
+  };
+  return pb;
+};
+
+/**
+ * PocketBase answers the first factor of an MFA sign in
+ * with a 401 carrying the mfaId to complete it with
+ */
+const getMfaId = (err: unknown): string | undefined =>
+  err instanceof ClientResponseError && err.status === 401
+    ? err.response?.mfaId
+    : undefined;
+
+/**
+ * Name the failed factor for bad credentials, so users know
+ * whether to retry the password or the one-time code
+ */
+const toFactorErrorMessage = (factor: "password" | "otp", err: unknown) => {
+  if (err instanceof ClientResponseError && err.status === 400) {
+    return factor === "password"
+      ? "Incorrect email or password"
+      : "Invalid or expired one-time code";
+  }
+  return toErrorMessage(err);
+};
+
+/**
+ * Count an attempt against the rate limits of an auth action
+ * @returns The error to return when the attempt is over a limit
+ */
+async function checkRateLimit(
+  action: AuthRateLimitAction,
+  email?: string
+): Promise<RateLimitedResult | null> {
+  const result = await limitAuthAttempt(action, await headers(), email);
+  if (result.success) {
+    return null;
+  }
+  return {
+    error: rateLimitMessage(result.retryAfter),
+    retryAfter: result.retryAfter,
+  };
+}
+
+/**
+ * Persist the client's auth state to the httpOnly pb_auth cookie
+ */
+async function persistAuth(pb: TypedPocketBase) {
+  const cookieStore = await cookies();
+  const { value, expires } = getAuthCookieValue(pb);
+  cookieStore.set(AUTH_COOKIE_NAME, value, { ...authCookieOptions, expires });
+}
+
+export async function signIn(
+  email: string,
+  password: string
+): Promise<SignInActionResult> {
+  const parsed = credentialsSchema.safeParse({ email, password });
+  if (!parsed.success) {
+    return { error: "Invalid email or password" };
+  }
+
+  const limited = await checkRateLimit("signIn", parsed.data.email);
+  if (limited) {
+    return limited;
+  }
+
+  const pb = await createClient();
+  try {
+    const { record } = await pb
+      .collection("users")
+      .authWithPassword(parsed.data.email, parsed.data.password);
+    await persistAuth(pb);
+    await authRateLimits.signIn.email.reset(parsed.data.email);
+    return { user: record };
+  } catch (err) {
+    const mfaId = getMfaId(err);
+    if (!mfaId) {
+      return { error: toFactorErrorMessage("password", err) };
+    }
+    await authRateLimits.signIn.email.reset(parsed.data.email);
+
+    // Password accepted, send a one-time code as the second factor
+    try {
+      const { otpId } = await pb
+        .collection("users")
+        .requestOTP(parsed.data.email);
+      return { mfa: { mfaId, otpId, email: parsed.data.email } };
+    } catch (otpErr) {
+      return {
+        error: `Could not send the one-time code: ${toErrorMessage(otpErr)}`,
+      };
+    }
+  }
+}
+
+/**
+ * Complete an MFA sign in with the one-time code sent by `signIn`
+ */
+export async function completeMfaSignIn(
+  mfaId: string,
+  otpId: string,
+  code: string
+): Promise<AuthActionResult> {
+  const limited = await checkRateLimit("signIn");
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    const { record } = await pb
+      .collection("users")
+      .authWithOTP(otpId, code, { mfaId });
+    await persistAuth(pb);
+    return { user: record };
+  } catch (err) {
+    return { error: toFactorErrorMessage("otp", err) };
+  }
+}
+
+export async function signUp(
+  email: string,
+  password: string,
+  name: string
+): Promise<AuthActionResult> {
+  const parsed = signUpSchema.safeParse({ email, password, name });
+  if (!parsed.success) {
+    return { error: "Invalid sign up details" };
+  }
+
+  const limited = await checkRateLimit("signUp", parsed.data.email);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    await pb.collection("users").create({
+      email: parsed.data.email,
+      password: parsed.data.password,
+      passwordConfirm: parsed.data.password,
+      name: parsed.data.name,
+    });
+    // Auto sign-in after successful registration
+    const { record } = await pb
+      .collection("users")
+      .authWithPassword(parsed.data.email, parsed.data.password);
+    await persistAuth(pb);
+    return { user: record };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Email a one-time password (and magic link) for passwordless sign in
+ * PocketBase returns an otpId even for unknown emails, so accounts
+ * can't be enumerated
+ */
+export async function requestOTP(email: string): Promise<OtpActionResult> {
+  const parsed = emailSchema.safeParse(email);
+  if (!parsed.success) {
+    return { error: "Please enter a valid email" };
+  }
+
+  const limited = await checkRateLimit("otp", parsed.data);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    const { otpId } = await pb.collection("users").requestOTP(parsed.data);
+    return { otpId };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+export async function signInWithOTP(
+  otpId: string,
+  password: string
+): Promise<AuthActionResult> {
+  const limited = await checkRateLimit("signIn");
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    const { record } = await pb
+      .collection("users")
+      .authWithOTP(otpId, password);
+    await persistAuth(pb);
+    return { user: record };
+  } catch (err) {
+    return { error: toFactorErrorMessage("otp", err) };
+  }
+}
+
+/**
+ * Exchange a token obtained in the browser (e.g. from `authWithOAuth2`)
+ * for the httpOnly cookie. The token is verified with PocketBase first.
+ */
+export async function signInWithToken(
+  token: string
+): Promise<AuthActionResult> {
+  try {
+    const pb = await createClient();
+    pb.authStore.save(token, null);
+    const { record } = await pb.collection("users").authRefresh();
+    await persistAuth(pb);
+    return { user: record };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+export async function signOut() {
+  const cookieStore = await cookies();
+  cookieStore.delete(AUTH_COOKIE_NAME);
+}
+
+/**
+ * Sign out every session of the current user, this one included
+ * The /api/sessions/revoke route in pb_hooks rotates the user's tokenKey,
+ * which invalidates every token issued so far
+ */
+export async function signOutEverywhere(): Promise<ActionResult> {
+  const pb = await createServerClient();
+  if (!pb.authStore.isValid) {
+    return { error: "You must be signed in" };
+  }
+
+  try {
+    await pb.send("/api/sessions/revoke", { method: "POST" });
+    const cookieStore = await cookies();
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Renew the session token and rewrite the cookie
+ * Called by the browser ahead of expiry and after 401 responses.
+ * Clears the cookie and reports `expired` when the session can no
+ * longer be renewed; other failures (e.g. PocketBase down) keep it.
+ */
+export async function refreshSession(): Promise<SessionActionResult> {
+  const pb = await createServerClient();
+  const cookieStore = await cookies();
+  if (!pb.authStore.isValid) {
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { expired: true };
+  }
+
+  try {
+    const { record, token } = await pb.collection("users").authRefresh();
+    await persistAuth(pb);
+    return { user: record, expiresAt: getTokenExpiry(token) };
+  } catch (err) {
+    // Token revoked or user deleted
+    if (err instanceof ClientResponseError && err.status === 401) {
+      cookieStore.delete(AUTH_COOKIE_NAME);
+      return { expired: true };
+    }
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Send a password reset email
+ * Always succeeds for valid emails so accounts can't be enumerated
+ */
+export async function requestPasswordReset(
+  email: string
+): Promise<ActionResult | RateLimitedResult> {
+  const parsed = emailSchema.safeParse(email);
+  if (!parsed.success) {
+    return { error: "Please enter a valid email" };
+  }
+
+  const limited = await checkRateLimit("passwordReset", parsed.data);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    await pb.collection("users").requestPasswordReset(parsed.data);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Set a new password with the token from the reset email
+ * Existing sessions are invalidated by PocketBase
+ */
+export async function confirmPasswordReset(
+  token: string,
+  password: string
+): Promise<ActionResult> {
+  try {
+    const pb = await createClient();
+    await pb
+      .collection("users")
+      .confirmPasswordReset(token, password, password);
+    const cookieStore = await cookies();
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Send (or resend) the email verification link
+ */
+export async function requestVerification(
+  email: string
+): Promise<ActionResult | RateLimitedResult> {
+  const parsed = emailSchema.safeParse(email);
+  if (!parsed.success) {
+    return { error: "Please enter a valid email" };
+  }
+
+  const limited = await checkRateLimit("verification", parsed.data);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const pb = await createClient();
+    await pb.collection("users").requestVerification(parsed.data);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Confirm an email with the token from the verification email
+ * Refreshes the session cookie so `verified` is up to date
+ */
+export async function confirmVerification(
+  token: string
+): Promise<ActionResult> {
+  try {
+    const pb = await createClient();
+    await pb.collection("users").confirmVerification(token);
+  } catch (err) {
+    return toErrorResult(err);
+  }
+
+  const pb = await createServerClient();
+  if (pb.authStore.isValid) {
+    try {
+      await pb.collection("users").authRefresh();
+      await persistAuth(pb);
+    } catch {
+      // Keep the current session, it will be refreshed by the proxy
+    }
+  }
+  return { success: true };
+}
+
+/**
+ * Apply a change to the signed-in user, then refresh the session cookie
+ * so it carries the updated record
+ */
+async function updateCurrentUser(
+  change: (pb: TypedClient<UsersResponse>, userId: string) => Promise<unknown>
+): Promise<AuthActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+
+  const pb = await createServerClient();
+  try {
+    await change(pb, user.id);
+    const { record } = await pb.collection("users").authRefresh();
+    await persistAuth(pb);
+    return { user: record };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Turn MFA (password + emailed one-time code) on or off for the current user
+ * The users collection MFA rule only requires it when `mfaEnabled` is set
+ */
+export async function setMfaEnabled(
+  enabled: boolean
+): Promise<AuthActionResult> {
+  return await updateCurrentUser((pb, userId) =>
+    pb.collection("users").update(userId, { mfaEnabled: enabled })
+  );
+}
+
+export async function updateProfile(name: string): Promise<AuthActionResult> {
+  const parsed = nameSchema.safeParse(name);
+  if (!parsed.success) {
+    return { error: "Please enter a name" };
+  }
+
+  return await updateCurrentUser((pb, userId) =>
+    pb.collection("users").update(userId, { name: parsed.data })
+  );
+}
+
+/**
+ * Replace the current user's avatar with the `avatar` file of the form
+ */
+export async function updateAvatar(
+  formData: FormData
+): Promise<AuthActionResult> {
+  const file = formData.get("avatar");
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Please choose an image" };
+  }
+  if (!AVATAR_TYPES.includes(file.type)) {
+    return { error: "Avatar must be a JPEG, PNG, WebP or GIF image" };
+  }
+  if (file.size > AVATAR_MAX_SIZE) {
+    return { error: "Avatar must be 2 MB or smaller" };
+  }
+
+  return await updateCurrentUser((_pb, userId) =>
+    storage.uploadFile(Collections.Users, userId, "avatar", file)
+  );
+}
+
+export async function removeAvatar(): Promise<AuthActionResult> {
+  return await updateCurrentUser((_pb, userId) =>
+    storage.deleteFile(Collections.Users, userId, "avatar")
+  );
+}
+
+/**
+ * Email a confirmation link to the new address
+ * The email only changes once the link is confirmed
+ */
+export async function requestEmailChange(
+  newEmail: string
+): Promise<ActionResult> {
+  const parsed = emailSchema.safeParse(newEmail);
+  if (!parsed.success) {
+    return { error: "Please enter a valid email" };
+  }
+
+  const pb = await createServerClient();
+  if (!pb.authStore.isValid) {
+    return { error: "You must be signed in" };
+  }
+
+  try {
+    await pb.collection("users").requestEmailChange(parsed.data);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Confirm an email change with the token from the confirmation email
+ * Existing sessions are invalidated by PocketBase
+ */
+export async function confirmEmailChange(
+  token: string,
+  password: string
+): Promise<ActionResult> {
+  try {
+    const pb = await createClient();
+    await pb.collection("users").confirmEmailChange(token, password);
+    const cookieStore = await cookies();
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Change the current user's password
+ * PocketBase invalidates existing sessions, so this signs in again with
+ * the new password. Users with MFA have to sign in again themselves.
+ */
+export async function changePassword(
+  oldPassword: string,
+  password: string
+): Promise<PasswordChangeResult> {
+  const parsed = passwordSchema.safeParse(password);
+  if (!parsed.success) {
+    return { error: "Password must be at least 8 characters" };
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+
+  const pb = await createServerClient();
+  try {
+    await pb.collection("users").update(user.id, {
+      oldPassword,
+      password: parsed.data,
+      passwordConfirm: parsed.data,
+    });
+  } catch (err) {
+    return toErrorResult(err);
+  }
+
+  try {
+    const { record } = await pb
+      .collection("users")
+      .authWithPassword(user.email, parsed.data);
+    await persistAuth(pb);
+    return { user: record };
+  } catch {
+    const cookieStore = await cookies();
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { expired: true };
+  }
+}
+
+/**
+ * Permanently delete the current user and sign out
+ */
+export async function deleteAccount(): Promise<ActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+
+  const pb = await createServerClient();
+  try {
+    await pb.collection("users").delete(user.id);
+    const cookieStore = await cookies();
+    cookieStore.delete(AUTH_COOKIE_NAME);
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
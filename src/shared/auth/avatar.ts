@@ -0,0 +1,23 @@
+import type { UsersResponse } from "@/shared/db/types";
+
+/** Largest avatar accepted, kept under the Server Action body size limit */
+export const AVATAR_MAX_SIZE = 2 * 1024 * 1024;
+
+export const AVATAR_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+];
+
+/**
+ * URL of a user's avatar, or null when none is set
+ * Served through the /api/pocketbase rewrite, so it works in Server and
+ * Client Components without exposing the internal PocketBase URL
+ */
+export const getAvatarUrl = (
+  user: Pick<UsersResponse, "id" | "collectionId" | "avatar">
+) =>
+  user.avatar
+    ? `/api/pocketbase/api/files/${user.collectionId}/${user.id}/${user.avatar}`
+    : null;
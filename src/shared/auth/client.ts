@@ -1,54 +1,87 @@
 "use client";
 
 import { pbBrowser } from "@/shared/db/browser";
+import type { UsersResponse } from "@/shared/db/types";
+import {
+  refreshSession,
+  type SessionActionResult,
+  signInWithToken,
+} from "./actions";
 
 /**
- * Auth helpers using browser PocketBase client
- * Uses /api/pocketbase proxy for client-side auth
+ * Client-side session helpers
+ *
+ * The pb_auth cookie is httpOnly, so the browser never sees the token.
+ * The signed-in user is read from a server-provided snapshot instead,
+ * and sign in / sign up / sign out run as Server Actions
+ * (see "@/shared/auth/actions").
  */
-export const authClient = pbBrowser;
+
+export const sessionQueryKey = ["me"] as const;
+
+/** Token expiry of a user's session, refetched with the session */
+export const sessionExpiryQueryKey = (userId: string) =>
+  [...sessionQueryKey, "expiry", userId] as const;
+
+interface SessionSnapshot {
+  user: UsersResponse | null;
+  /** Token expiry in milliseconds since epoch */
+  expiresAt: number | null;
+}
+
+async function fetchSessionSnapshot(): Promise<SessionSnapshot> {
+  const res = await fetch("/api/auth/session", { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error("Failed to load session");
+  }
+  return (await res.json()) as SessionSnapshot;
+}
 
 /**
- * Sync PocketBase auth state to a cookie for server-side access
- * Call this after successful authentication
+ * Fetch the signed-in user snapshot from the server
+ * @returns The user record, or null when not signed in
  */
-export const syncAuthCookie = () => {
-  const cookie = pbBrowser.authStore.exportToCookie({
-    httpOnly: false, // Must be false to set from client
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-  });
-  // biome-ignore lint/suspicious/noDocumentCookie: Required for server-side auth sync
-  document.cookie = cookie;
-};
+export async function fetchSession(): Promise<UsersResponse | null> {
+  const { user } = await fetchSessionSnapshot();
+  return user;
+}
 
 /**
- * Clear the auth cookie (for sign out)
+ * Fetch when the current session token expires
+ * @returns Milliseconds since epoch, or null when not signed in
  */
-export const clearAuthCookie = () => {
-  // biome-ignore lint/suspicious/noDocumentCookie: Required for server-side auth sync
-  document.cookie = "pb_auth=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT";
-};
-
-export const signIn = async (email: string, password: string) => {
-  const result = await pbBrowser
-    .collection("users")
-    .authWithPassword(email, password);
-  return result;
-};
-
-export const signUp = (email: string, password: string, name: string) => {
-  return pbBrowser.collection("users").create({
-    email,
-    password,
-    passwordConfirm: password,
-    name,
-  });
-};
+export async function fetchSessionExpiry(): Promise<number | null> {
+  const { expiresAt } = await fetchSessionSnapshot();
+  return expiresAt;
+}
 
-export const signOut = () => {
-  pbBrowser.authStore.clear();
-  clearAuthCookie();
-};
+let pendingRefresh: Promise<SessionActionResult> | null = null;
 
-export const useSession = () => pbBrowser.authStore;
+/**
+ * Renew the session through the `refreshSession` Server Action
+ * Concurrent callers (timers, 401 retries) share a single refresh.
+ */
+export function renewSession() {
+  pendingRefresh ??= refreshSession().finally(() => {
+    pendingRefresh = null;
+  });
+  return pendingRefresh;
+}
+
+/**
+ * Sign in (or link a provider, when already signed in) with OAuth2
+ * Runs the PocketBase popup flow through the /api/pocketbase proxy,
+ * then hands the token to the server to set the httpOnly cookie.
+ * @param provider - The provider name from `listAuthMethods()`
+ */
+export async function signInWithOAuth2(provider: string) {
+  try {
+    const { token } = await pbBrowser
+      .collection("users")
+      .authWithOAuth2({ provider });
+    return await signInWithToken(token);
+  } finally {
+    // The token must not outlive the exchange in browser memory
+    pbBrowser.authStore.clear();
+  }
+}
@@ -0,0 +1,41 @@
+import type PocketBase from "pocketbase";
+import { cookieParse, getTokenPayload } from "pocketbase";
+import { config } from "@/shared/config/public";
+
+/** Name of the cookie holding the PocketBase auth state */
+export const AUTH_COOKIE_NAME = "pb_auth";
+
+/**
+ * The auth cookie is only ever written on the server, so it stays
+ * out of reach of client-side JavaScript
+ */
+export const authCookieOptions = {
+  httpOnly: true,
+  secure: config.isProd,
+  sameSite: "lax",
+  path: "/",
+} as const;
+
+/**
+ * Export the auth store as a Set-Cookie header value
+ * @param pb - A PocketBase client holding the auth state
+ */
+export const exportAuthCookie = (pb: PocketBase) =>
+  pb.authStore.exportToCookie(authCookieOptions, AUTH_COOKIE_NAME);
+
+/**
+ * Read the expiry of a PocketBase token
+ * @returns Milliseconds since epoch, as used by `Date`
+ */
+export const getTokenExpiry = (token: string) =>
+  getTokenPayload(token).exp * 1000;
+
+/**
+ * Export the auth store as a cookie value and expiry
+ * For APIs that take name/value/options such as `cookies().set`
+ * @param pb - A PocketBase client holding the auth state
+ */
+export const getAuthCookieValue = (pb: PocketBase) => ({
+  value: cookieParse(exportAuthCookie(pb))[AUTH_COOKIE_NAME],
+  expires: new Date(getTokenExpiry(pb.authStore.token)),
+});
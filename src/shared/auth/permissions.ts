@@ -0,0 +1,65 @@
+import { type UsersResponse, UsersRoleOptions } from "@/shared/db/types";
+
+/**
+ * Role-based access control, shared by server and client
+ *
+ * The PocketBase API rules in pocketbase/pb_migrations/*_users_role.js
+ * enforce the same policy, so `can()` only decides what the UI offers.
+ * Users can always view and update their own record; the map below
+ * covers access to everyone else's.
+ */
+
+/** Higher roles inherit every permission of the lower ones */
+const roleRanks: Record<UsersRoleOptions, number> = {
+  [UsersRoleOptions.user]: 0,
+  [UsersRoleOptions.editor]: 1,
+  [UsersRoleOptions.admin]: 2,
+};
+
+/**
+ * Minimum role for each action on each resource
+ * Keep in sync with the API rules when adding collections
+ */
+export const permissions = {
+  users: {
+    list: UsersRoleOptions.editor,
+    view: UsersRoleOptions.editor,
+    update: UsersRoleOptions.admin,
+    delete: UsersRoleOptions.admin,
+    assignRole: UsersRoleOptions.admin,
+  },
+} as const satisfies Record<string, Record<string, UsersRoleOptions>>;
+
+export type Resource = keyof typeof permissions;
+export type Action<R extends Resource> = keyof (typeof permissions)[R];
+
+type RoleHolder = Pick<UsersResponse, "role"> | null | undefined;
+
+/**
+ * Role of a user, users without one are plain users
+ */
+export const getRole = (user: NonNullable<RoleHolder>) =>
+  user.role || UsersRoleOptions.user;
+
+/**
+ * Whether the user has at least the given role
+ * On the server, pass the record from `getCurrentUser`, not the pb_auth
+ * cookie's copy
+ */
+export const hasRole = (user: RoleHolder, role: UsersRoleOptions) =>
+  user ? roleRanks[getRole(user)] >= roleRanks[role] : false;
+
+/**
+ * Whether the user may perform an action on a resource
+ * @example
+ * can(user, "assignRole", "users");
+ */
+export const can = <R extends Resource>(
+  user: RoleHolder,
+  action: Action<R>,
+  resource: R
+) =>
+  hasRole(
+    user,
+    (permissions[resource] as Record<Action<R>, UsersRoleOptions>)[action]
+  );
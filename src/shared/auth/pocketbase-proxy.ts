@@ -0,0 +1,28 @@
+/**
+ * PocketBase endpoints proxy.ts refuses to forward from the browser
+ * Sign in, sign up, password reset, verification and OTP requests must go
+ * through the auth Server Actions, which apply the per-IP and per-email
+ * rate limits of ./rate-limits.ts. Endpoints returning a token are rejected too: the
+ * proxy adds the httpOnly cookie's token to every request, so any script
+ * on the page could read a fresh one from them. Collections are matched
+ * by any name or ID, since PocketBase accepts both, in any case.
+ *
+ * `auth-with-oauth2` stays open for the OAuth2 popup flow, it needs a
+ * code the provider only hands out after the user signs in there.
+ */
+
+// Auth flows and token-returning endpoints of every auth collection
+const AUTH_FLOW_PATH =
+  /^\/api\/collections\/[^/]+\/(auth-with-password|auth-with-otp|auth-refresh|request-otp|request-password-reset|request-verification|impersonate\/[^/]+)\/?$/i;
+
+// Sign up, `_pb_users_auth_` is the ID of the default users collection
+const USERS_RECORDS_PATH =
+  /^\/api\/collections\/(users|_pb_users_auth_)\/records\/?$/i;
+
+/**
+ * Whether a browser request to PocketBase must be rejected
+ * @param pathname - The PocketBase path, without the /api/pocketbase prefix
+ */
+export const isBlockedPocketBaseRequest = (method: string, pathname: string) =>
+  method === "POST" &&
+  (AUTH_FLOW_PATH.test(pathname) || USERS_RECORDS_PATH.test(pathname));
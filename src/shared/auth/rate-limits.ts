@@ -0,0 +1,142 @@
+import { serverConfig } from "@/shared/config/server";
+import {
+  createRateLimiter,
+  defaultStore,
+  getClientIp,
+  type RateLimitResult,
+} from "@/shared/rate-limit/rate-limit";
+
+/**
+ * Rate limits of the auth endpoints, per client IP and per email
+ * Applied by the auth Server Actions. proxy.ts rejects browser calls to
+ * the same endpoints through /api/pocketbase, see ./pocketbase-proxy.ts
+ */
+
+const MINUTE = 60 * 1000;
+
+// Replace with `createRedisStore(redis)` when running several instances
+const store = defaultStore;
+
+export const authRateLimits = {
+  signIn: {
+    ip: createRateLimiter({
+      name: "sign-in:ip",
+      limit: 20,
+      windowMs: 15 * MINUTE,
+      store,
+    }),
+    // Reset after a successful sign in, so only failures add up
+    email: createRateLimiter({
+      name: "sign-in:email",
+      limit: 5,
+      windowMs: 15 * MINUTE,
+      lockoutMs: 15 * MINUTE,
+      store,
+    }),
+  },
+  signUp: {
+    ip: createRateLimiter({
+      name: "sign-up:ip",
+      limit: 5,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+    email: createRateLimiter({
+      name: "sign-up:email",
+      limit: 3,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+  },
+  passwordReset: {
+    ip: createRateLimiter({
+      name: "password-reset:ip",
+      limit: 10,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+    email: createRateLimiter({
+      name: "password-reset:email",
+      limit: 3,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+  },
+  verification: {
+    ip: createRateLimiter({
+      name: "verification:ip",
+      limit: 10,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+    email: createRateLimiter({
+      name: "verification:email",
+      limit: 3,
+      windowMs: 60 * MINUTE,
+      store,
+    }),
+  },
+  otp: {
+    ip: createRateLimiter({
+      name: "otp:ip",
+      limit: 10,
+      windowMs: 15 * MINUTE,
+      store,
+    }),
+    email: createRateLimiter({
+      name: "otp:email",
+      limit: 5,
+      windowMs: 15 * MINUTE,
+      store,
+    }),
+  },
+};
+
+export type AuthRateLimitAction = keyof typeof authRateLimits;
+
+let warnedMissingIp = false;
+
+/**
+ * Count a hit against the IP limit, skipped without a client IP: a shared
+ * key would let one client lock everyone out
+ */
+function consumeIp(action: AuthRateLimitAction, requestHeaders: Headers) {
+  const ip = getClientIp(requestHeaders, serverConfig.trustedProxyHops);
+  if (ip) {
+    return authRateLimits[action].ip.consume(ip);
+  }
+  if (!warnedMissingIp) {
+    warnedMissingIp = true;
+    console.warn(
+      "[rate-limit] No X-Forwarded-For or X-Real-IP header, only per-email auth limits apply"
+    );
+  }
+  return { success: true as const };
+}
+
+/**
+ * Count an attempt against the IP limit of an action, and its email
+ * limit when an email is given
+ * The IP limit needs a trusted X-Forwarded-For or X-Real-IP header
+ * @param requestHeaders - Headers of the incoming request, for the client IP
+ */
+export async function limitAuthAttempt(
+  action: AuthRateLimitAction,
+  requestHeaders: Headers,
+  email?: string
+): Promise<RateLimitResult> {
+  const limits = authRateLimits[action];
+  const results = await Promise.all([
+    consumeIp(action, requestHeaders),
+    email ? limits.email.consume(email) : { success: true as const },
+  ]);
+
+  const retryAfter = Math.max(
+    0,
+    ...results.map((result) => (result.success ? 0 : result.retryAfter))
+  );
+  return retryAfter > 0 ? { success: false, retryAfter } : { success: true };
+}
+
+export const rateLimitMessage = (retryAfter: number) =>
+  `Too many attempts, try again in ${retryAfter} seconds`;
@@ -0,0 +1,32 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useAuth } from "@/shared/providers/auth-provider";
+import { type Action, can, type Resource } from "./permissions";
+
+interface RequirePermissionProps<R extends Resource> {
+  action: Action<R>;
+  resource: R;
+  /** Rendered instead of children when the permission is missing */
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Render children only when the signed-in user has a permission
+ * Hides UI only, PocketBase API rules still enforce the policy
+ *
+ * @example
+ * <RequirePermission action="delete" resource="users">
+ *   <DeleteUserButton />
+ * </RequirePermission>
+ */
+export function RequirePermission<R extends Resource>({
+  action,
+  resource,
+  fallback = null,
+  children,
+}: RequirePermissionProps<R>) {
+  const { user } = useAuth();
+  return can(user, action, resource) ? children : fallback;
+}
@@ -0,0 +1,36 @@
+/**
+ * Auth route configuration
+ * Shared by proxy.ts and the auth features to guard and redirect pages
+ */
+export const authRoutes = {
+  signIn: "/auth/sign-in",
+  signUp: "/auth/sign-up",
+  afterSignIn: "/",
+  /** Route prefixes that require a signed-in user */
+  protected: ["/account", "/organization", "/invitations", "/files"],
+  /** Routes that signed-in users are bounced away from */
+  guestOnly: ["/auth/sign-in", "/auth/sign-up", "/auth/magic-link"],
+} as const;
+
+/** Query param carrying the page to return to after sign in */
+export const NEXT_PARAM = "next";
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export const isProtectedRoute = (pathname: string) =>
+  authRoutes.protected.some((prefix) => matchesPrefix(pathname, prefix));
+
+export const isGuestOnlyRoute = (pathname: string) =>
+  authRoutes.guestOnly.some((prefix) => matchesPrefix(pathname, prefix));
+
+/**
+ * Resolve a `next` redirect target, only allowing same-origin paths
+ * @param next - The raw `next` query param value
+ */
+export const getSafeRedirect = (next: string | null | undefined) => {
+  if (!next?.startsWith("/") || next.startsWith("//")) {
+    return authRoutes.afterSignIn;
+  }
+  return next;
+};
@@ -1,10 +1,73 @@
+import "server-only";
+
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { createServerClient } from "@/shared/db/server";
+import type { UsersRoleOptions } from "@/shared/db/types";
+import { hasRole } from "./permissions";
+import { authRoutes } from "./routes";
+
 /**
- * Auth - Server-side PocketBase client
+ * Auth - Server-side helpers
  *
- * Import from specific db files:
- * import { pbServer } from "@/shared/db/server";
+ * Import clients from specific db files:
+ * import { createServerClient, pbServer } from "@/shared/db/server";
  * import { pbAdmin } from "@/shared/db/admin";
  */
 
 export { pbAdmin } from "@/shared/db/admin";
-export { pbServer } from "@/shared/db/server";
+export { createServerClient, pbServer } from "@/shared/db/server";
+
+/**
+ * Get the signed-in user for the current request
+ * The `record` in the pb_auth cookie is only a snapshot the browser can
+ * edit, so the token is checked with PocketBase once per request and the
+ * record it returns replaces the snapshot. Use this, never
+ * `pb.authStore.record`, for ids, emails and roles.
+ * @returns The user record, or null when not signed in
+ */
+export const getCurrentUser = cache(async () => {
+  const pb = await createServerClient();
+  if (!pb.authStore.isValid) {
+    return null;
+  }
+
+  const token = pb.authStore.token;
+  try {
+    const { record } = await pb.collection("users").authRefresh();
+    // Keep the cookie's token, the proxy renews it
+    pb.authStore.save(token, pb.authStore.record);
+    return record;
+  } catch {
+    // Token revoked, user deleted or PocketBase unreachable
+    pb.authStore.clear();
+    return null;
+  }
+});
+
+/**
+ * Get the signed-in user, redirecting to sign in when there is none
+ * Use this to guard Server Components and Server Actions
+ */
+export async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(authRoutes.signIn);
+  }
+  return user;
+}
+
+/**
+ * Get the signed-in user, requiring at least the given role
+ * Redirects to sign in when signed out, and home when the role is missing.
+ * Use this to guard admin-only Server Components and Server Actions.
+ * The role is read from the record verified by `getCurrentUser`; users
+ * can set any role in their own cookie.
+ */
+export async function requireRole(role: UsersRoleOptions) {
+  const user = await requireUser();
+  if (!hasRole(user, role)) {
+    redirect(authRoutes.afterSignIn);
+  }
+  return user;
+}
@@ -0,0 +1,83 @@
+"use client";
+
+/**
+ * Cross-tab auth sync
+ *
+ * The pb_auth cookie is shared by every tab, but each tab keeps its own
+ * session snapshot. Tabs announce sign in, sign out and refreshes on a
+ * BroadcastChannel, falling back to `storage` events where it is missing.
+ */
+
+export type AuthSyncEvent = "sign-in" | "sign-out" | "refresh";
+
+const CHANNEL_NAME = "pb_auth";
+// localStorage key written by the `storage` event fallback
+const STORAGE_KEY = "pb_auth_sync";
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel() {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Classify a change of the signed-in user
+ * @returns The event to broadcast, or null when both are signed out
+ */
+export function getAuthChange(
+  previousId: string | undefined,
+  userId: string | undefined
+): AuthSyncEvent | null {
+  if (userId === previousId) {
+    return userId ? "refresh" : null;
+  }
+  return userId ? "sign-in" : "sign-out";
+}
+
+/**
+ * Tell the other tabs that the auth state changed
+ */
+export function broadcastAuthChange(event: AuthSyncEvent) {
+  const current = getChannel();
+  if (current) {
+    current.postMessage(event);
+    return;
+  }
+  try {
+    // The timestamp makes repeated events change the value
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ event, at: Date.now() })
+    );
+  } catch {
+    // Storage disabled, other tabs sync on their next request
+  }
+}
+
+/**
+ * Listen for auth changes made in other tabs
+ * @returns A function removing the listener
+ */
+export function onAuthChange(listener: (event: AuthSyncEvent) => void) {
+  const current = getChannel();
+  if (current) {
+    const handleMessage = ({ data }: MessageEvent<AuthSyncEvent>) =>
+      listener(data);
+    current.addEventListener("message", handleMessage);
+    return () => current.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = ({ key, newValue }: StorageEvent) => {
+    if (key === STORAGE_KEY && newValue) {
+      listener((JSON.parse(newValue) as { event: AuthSyncEvent }).event);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
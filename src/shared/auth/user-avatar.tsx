@@ -0,0 +1,26 @@
+import type { UsersResponse } from "@/shared/db/types";
+import { cn } from "@/shared/lib/utils";
+import { Avatar, AvatarFallback, AvatarImage } from "@/shared/ui/avatar";
+import { getAvatarUrl } from "./avatar";
+
+interface UserAvatarProps {
+  user: Pick<UsersResponse, "id" | "collectionId" | "avatar" | "name">;
+  className?: string;
+}
+
+/**
+ * A user's avatar, falling back to the first letter of their name
+ * Works in Server and Client Components
+ */
+export function UserAvatar({ user, className }: UserAvatarProps) {
+  const src = getAvatarUrl(user);
+
+  return (
+    <Avatar className={cn("size-10", className)}>
+      {src && <AvatarImage alt={user.name} src={src} />}
+      <AvatarFallback className="bg-zinc-200 font-medium text-zinc-700 dark:bg-zinc-700 dark:text-zinc-200">
+        {user.name?.charAt(0).toUpperCase() || "?"}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -1,11 +0,0 @@
-/**
- * Shared Configuration
- *
- * Export environment variables and app-wide constants.
- */
-
-export const config = {
-  apiUrl: process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3000",
-  isDev: process.env.NODE_ENV === "development",
-  isProd: process.env.NODE_ENV === "production",
-} as const;
@@ -0,0 +1,225 @@
+import { z } from "zod";
+
+/**
+ * Environment variable schemas
+ * next.config.ts loads both configs at startup, so `next dev`, `next build`
+ * and `next start` stop with a readable report of every missing or
+ * malformed variable instead of failing later inside a request.
+ *
+ * Only relative imports here, next.config.ts doesn't resolve `@/` paths.
+ */
+
+// Unset and empty variables (e.g. `R2_ENDPOINT=`) both count as missing
+const emptyToUndefined = (value: unknown) => (value === "" ? undefined : value);
+
+const optionalString = z.preprocess(emptyToUndefined, z.string().optional());
+
+const optionalUrl = z.preprocess(
+  emptyToUndefined,
+  z.string().url("Must be a URL").optional()
+);
+
+const optionalEmail = z.preprocess(
+  emptyToUndefined,
+  z.string().email("Must be an email").optional()
+);
+
+// Optional groups of variables, all or nothing
+const ADMIN_CREDENTIAL_KEYS = [
+  "POCKETBASE_ADMIN_EMAIL",
+  "POCKETBASE_ADMIN_PASSWORD",
+] as const;
+
+const R2_REQUIRED_KEYS = [
+  "R2_ENDPOINT",
+  "R2_ACCESS_KEY_ID",
+  "R2_SECRET_ACCESS_KEY",
+  "R2_BUCKET_NAME",
+] as const;
+
+function requireTogether<K extends string>(
+  env: Partial<Record<K, string>>,
+  keys: readonly K[],
+  label: string,
+  ctx: z.RefinementCtx
+) {
+  const missing = keys.filter((key) => !env[key]);
+  if (missing.length === keys.length) {
+    return;
+  }
+  for (const key of missing) {
+    ctx.addIssue({
+      code: "custom",
+      path: [key],
+      message: `Required when any other ${label} variable is set`,
+    });
+  }
+}
+
+export const serverEnvSchema = z
+  .object({
+    POCKETBASE_URL: z.preprocess(
+      emptyToUndefined,
+      z.string().url("Must be a URL").default("http://127.0.0.1:8080")
+    ),
+    POCKETBASE_ADMIN_EMAIL: optionalEmail,
+    POCKETBASE_ADMIN_PASSWORD: optionalString,
+    POCKETBASE_ADMIN_TOKEN: optionalString,
+    R2_ENDPOINT: optionalUrl,
+    R2_ACCESS_KEY_ID: optionalString,
+    R2_SECRET_ACCESS_KEY: optionalString,
+    R2_BUCKET_NAME: optionalString,
+    R2_PUBLIC_URL: optionalUrl,
+    R2_REGION: z.preprocess(emptyToUndefined, z.string().default("auto")),
+    // Path-style URLs (endpoint/bucket/key) for MinIO and other S3 stand-ins
+    R2_FORCE_PATH_STYLE: z.preprocess(
+      emptyToUndefined,
+      z
+        .enum(["true", "false"])
+        .default("false")
+        .transform((value) => value === "true")
+    ),
+    // Bearer token of scheduled jobs, e.g. /api/uploads/multipart/cleanup
+    CRON_SECRET: optionalString,
+    // Proxies in front of the app that append to X-Forwarded-For
+    TRUSTED_PROXY_HOPS: z.preprocess(
+      emptyToUndefined,
+      z.coerce.number().int().min(1, "Must be at least 1").default(1)
+    ),
+    // Backend of storageDriver, defaults to s3 with R2 set up, local otherwise
+    STORAGE_DRIVER: z.preprocess(
+      emptyToUndefined,
+      z.enum(["pocketbase", "s3", "local"]).optional()
+    ),
+    STORAGE_LOCAL_DIR: z.preprocess(
+      emptyToUndefined,
+      z.string().default(".storage")
+    ),
+    // Signs /api/storage URLs (local and pocketbase), random per process when unset
+    STORAGE_SIGNING_SECRET: z.preprocess(
+      emptyToUndefined,
+      z.string().min(32, "Must be at least 32 characters").optional()
+    ),
+  })
+  .superRefine((env, ctx) => {
+    requireTogether(env, ADMIN_CREDENTIAL_KEYS, "admin credential", ctx);
+    requireTogether(env, R2_REQUIRED_KEYS, "R2", ctx);
+    if (env.STORAGE_DRIVER === "s3" && !env.R2_ENDPOINT) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["STORAGE_DRIVER"],
+        message: "s3 requires the R2_* variables",
+      });
+    }
+  });
+
+export const publicEnvSchema = z.object({
+  NODE_ENV: z
+    .enum(["development", "production", "test"])
+    .default("development"),
+  NEXT_PUBLIC_API_URL: z.preprocess(
+    emptyToUndefined,
+    z.string().url("Must be a URL").default("http://localhost:3000")
+  ),
+  // "password" (default) or "otp" for passwordless email codes / magic links
+  NEXT_PUBLIC_SIGN_IN_MODE: z.preprocess(
+    emptyToUndefined,
+    z.enum(["password", "otp"]).default("password")
+  ),
+});
+
+type Env = Record<string, string | undefined>;
+
+function parseEnv<T extends z.ZodType>(
+  schema: T,
+  env: Env,
+  label: string
+): z.output<T> {
+  const result = schema.safeParse(env);
+  if (result.success) {
+    return result.data;
+  }
+
+  const lines = result.error.issues.map(
+    (issue) => `  - ${issue.path.join(".")}: ${issue.message}`
+  );
+  throw new Error(
+    `Invalid ${label} environment variables:\n${lines.join("\n")}\n` +
+      "See .env.local.example for the expected values."
+  );
+}
+
+/**
+ * Superuser credentials, email/password first since pbAdmin can sign
+ * in again with them once a token expires
+ */
+export type AdminCredentials =
+  | { method: "password"; email: string; password: string }
+  | { method: "token"; token: string };
+
+function getAdminCredentials(
+  env: z.output<typeof serverEnvSchema>
+): AdminCredentials | null {
+  if (env.POCKETBASE_ADMIN_EMAIL && env.POCKETBASE_ADMIN_PASSWORD) {
+    return {
+      method: "password",
+      email: env.POCKETBASE_ADMIN_EMAIL,
+      password: env.POCKETBASE_ADMIN_PASSWORD,
+    };
+  }
+  if (env.POCKETBASE_ADMIN_TOKEN) {
+    return { method: "token", token: env.POCKETBASE_ADMIN_TOKEN };
+  }
+  return null;
+}
+
+/**
+ * Parse the server-only variables
+ * @throws With the list of missing or malformed variables
+ */
+export function loadServerConfig(env: Env = process.env) {
+  const parsed = parseEnv(serverEnvSchema, env, "server");
+  return {
+    pocketbaseUrl: parsed.POCKETBASE_URL,
+    /** How pbAdmin authenticates, see src/shared/db/admin.ts */
+    pocketbaseAdmin: getAdminCredentials(parsed),
+    /** Cloudflare R2 / S3 settings, null when R2 isn't used */
+    r2: parsed.R2_ENDPOINT
+      ? {
+          endpoint: parsed.R2_ENDPOINT,
+          accessKeyId: parsed.R2_ACCESS_KEY_ID ?? "",
+          secretAccessKey: parsed.R2_SECRET_ACCESS_KEY ?? "",
+          bucket: parsed.R2_BUCKET_NAME ?? "",
+          publicUrl: parsed.R2_PUBLIC_URL,
+          region: parsed.R2_REGION,
+          forcePathStyle: parsed.R2_FORCE_PATH_STYLE,
+        }
+      : null,
+    cronSecret: parsed.CRON_SECRET,
+    /** X-Forwarded-For entries added by trusted proxies, see getClientIp */
+    trustedProxyHops: parsed.TRUSTED_PROXY_HOPS,
+    /** Backend of storageDriver, see src/shared/storage/storage-driver.ts */
+    storage: {
+      driver: parsed.STORAGE_DRIVER ?? (parsed.R2_ENDPOINT ? "s3" : "local"),
+      localDir: parsed.STORAGE_LOCAL_DIR,
+      signingSecret: parsed.STORAGE_SIGNING_SECRET,
+    },
+  };
+}
+
+/**
+ * Parse the variables that are safe to expose to the browser
+ * @throws With the list of malformed variables
+ */
+export function loadPublicConfig(env: Env = process.env) {
+  const parsed = parseEnv(publicEnvSchema, env, "public");
+  return {
+    apiUrl: parsed.NEXT_PUBLIC_API_URL,
+    isDev: parsed.NODE_ENV === "development",
+    isProd: parsed.NODE_ENV === "production",
+    signInMode: parsed.NEXT_PUBLIC_SIGN_IN_MODE,
+  };
+}
+
+export type ServerConfig = ReturnType<typeof loadServerConfig>;
+export type PublicConfig = ReturnType<typeof loadPublicConfig>;
@@ -0,0 +1,14 @@
+import { loadPublicConfig } from "./env";
+
+/**
+ * Shared Configuration
+ *
+ * Public variables and app-wide constants, safe for Client Components.
+ * NEXT_PUBLIC_ variables are inlined at build time only when read by
+ * name, so each one is listed here. Server secrets live in ./server.ts.
+ */
+export const config = loadPublicConfig({
+  NODE_ENV: process.env.NODE_ENV,
+  NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+  NEXT_PUBLIC_SIGN_IN_MODE: process.env.NEXT_PUBLIC_SIGN_IN_MODE,
+});
@@ -0,0 +1,9 @@
+import "server-only";
+
+import { loadServerConfig } from "./env";
+
+/**
+ * Server-only configuration: PocketBase and R2 URLs and secrets
+ * ⚠️ SERVER ONLY - Never import this in client components
+ */
+export const serverConfig = loadServerConfig();
@@ -1,6 +1,72 @@
 import "server-only";
 
-import PocketBase from "pocketbase";
+import PocketBase, {
+  ClientResponseError,
+  getTokenPayload,
+  isTokenExpired,
+  type SendOptions,
+} from "pocketbase";
+import { serverConfig } from "@/shared/config/server";
+import type { TypedClient } from "./typed-client";
+import type { SuperusersResponse } from "./types";
+
+// Sign in again when the token has less than 5 minutes left
+const EXPIRY_THRESHOLD_SECONDS = 60 * 5;
+
+const credentials = serverConfig.pocketbaseAdmin;
+
+export type AdminAuthStatus =
+  | "unconfigured"
+  | "pending"
+  | "authenticated"
+  | "expired"
+  | "failed";
+
+export interface AdminAuthState {
+  /** POCKETBASE_ADMIN_EMAIL/PASSWORD or POCKETBASE_ADMIN_TOKEN */
+  method: "password" | "token" | null;
+  status: AdminAuthStatus;
+  /** Expiry of the current superuser token */
+  expiresAt: Date | null;
+  /** Message of the last failed authentication */
+  error: string | null;
+}
+
+let inFlightAuth: Promise<void> | null = null;
+let lastError: string | null = null;
+
+const isAuthRequest = (path: string) =>
+  path.startsWith("/api/collections/_superusers/auth-");
+
+/**
+ * Authenticates before the first request and again before the token
+ * expires, and retries a request once after a 401
+ */
+class AdminPocketBase extends PocketBase {
+  override async send<T>(path: string, options: SendOptions): Promise<T> {
+    if (!credentials || isAuthRequest(path)) {
+      return super.send<T>(path, options);
+    }
+
+    if (isTokenExpired(this.authStore.token, EXPIRY_THRESHOLD_SECONDS)) {
+      await authenticate();
+    }
+
+    const token = this.authStore.token;
+    try {
+      return await super.send<T>(path, options);
+    } catch (err) {
+      if (!(err instanceof ClientResponseError && err.status === 401)) {
+        throw err;
+      }
+      // Concurrent requests that failed with the same token share one sign in
+      if (this.authStore.token === token) {
+        await authenticate();
+      }
+      return super.send<T>(path, options);
+    }
+  }
+}
 
 /**
  * Admin/Superuser PocketBase client (singleton)
@@ -20,20 +86,94 @@ import PocketBase from "pocketbase";
  * with PocketBase only as admin/superuser and as pure data store"
  * @see https://github.com/pocketbase/pocketbase/discussions/5313
  *
- * Requires POCKETBASE_ADMIN_TOKEN env var
- * Get token from: pocketbase superusers create <email> <password>
- * Then: pocketbase superusers list
+ * Authenticates with POCKETBASE_ADMIN_EMAIL and POCKETBASE_ADMIN_PASSWORD
+ * on first use and whenever the token expires or is rejected.
+ * Alternatively POCKETBASE_ADMIN_TOKEN holds a superuser or impersonation
+ * token: superuser tokens are refreshed, impersonation tokens can't be
+ * and must be replaced before they expire.
  */
-export const pbAdmin = new PocketBase(
-  process.env.POCKETBASE_URL ?? "http://127.0.0.1:8080"
-);
+export const pbAdmin = new AdminPocketBase(
+  serverConfig.pocketbaseUrl
+) as TypedClient<SuperusersResponse>;
 
 // Disable auto-cancellation to handle concurrent requests from multiple users
 pbAdmin.autoCancellation(false);
 
-// Authenticate as superuser if token is available
-if (process.env.POCKETBASE_ADMIN_TOKEN) {
-  pbAdmin.authStore.save(process.env.POCKETBASE_ADMIN_TOKEN, null);
+if (credentials?.method === "token") {
+  pbAdmin.authStore.save(credentials.token, null);
+}
+
+async function signIn() {
+  const superusers = pbAdmin.collection("_superusers");
+  if (credentials?.method === "password") {
+    await superusers.authWithPassword(credentials.email, credentials.password);
+    return;
+  }
+  const token = pbAdmin.authStore.token;
+  if (isTokenExpired(token)) {
+    throw new Error(
+      "POCKETBASE_ADMIN_TOKEN has expired, generate a new token or use POCKETBASE_ADMIN_EMAIL and POCKETBASE_ADMIN_PASSWORD"
+    );
+  }
+  // Impersonation tokens can't be refreshed, they stay valid until they expire
+  if (getTokenPayload(token).refreshable) {
+    await superusers.authRefresh();
+  }
+}
+
+/**
+ * Sign in as superuser, sharing a single in-flight attempt
+ * @throws When the credentials are rejected or the token can't be renewed
+ */
+function authenticate() {
+  inFlightAuth ??= signIn()
+    .then(() => {
+      lastError = null;
+    })
+    .catch((err: unknown) => {
+      lastError = err instanceof Error ? err.message : String(err);
+      console.error(`[pbAdmin] Superuser authentication failed: ${lastError}`);
+      throw err;
+    })
+    .finally(() => {
+      inFlightAuth = null;
+    });
+  return inFlightAuth;
+}
+
+const getStatus = (): AdminAuthStatus => {
+  const token = pbAdmin.authStore.token;
+  if (!credentials) {
+    return "unconfigured";
+  }
+  if (token && isTokenExpired(token)) {
+    return "expired";
+  }
+  if (lastError) {
+    return "failed";
+  }
+  return token ? "authenticated" : "pending";
+};
+
+/**
+ * Authenticate if needed and report how pbAdmin is signed in
+ * Used by the health check, never throws
+ */
+export async function getAdminAuthState(): Promise<AdminAuthState> {
+  if (
+    credentials &&
+    isTokenExpired(pbAdmin.authStore.token, EXPIRY_THRESHOLD_SECONDS)
+  ) {
+    await authenticate().catch(() => undefined);
+  }
+
+  const exp = getTokenPayload(pbAdmin.authStore.token).exp;
+  return {
+    method: credentials?.method ?? null,
+    status: getStatus(),
+    expiresAt: typeof exp === "number" ? new Date(exp * 1000) : null,
+    error: lastError,
+  };
 }
 
 export type PocketBaseAdminClient = typeof pbAdmin;
@@ -1,14 +1,70 @@
-import PocketBase from "pocketbase";
+import PocketBase, {
+  BaseAuthStore,
+  ClientResponseError,
+  type SendOptions,
+} from "pocketbase";
+import type { TypedClient } from "./typed-client";
+import type { UsersResponse } from "./types";
+
+/**
+ * Renews the session after a 401 response
+ * @returns Whether the request should be retried
+ */
+type UnauthorizedHandler = () => Promise<boolean>;
+
+let unauthorizedHandler: UnauthorizedHandler | undefined;
+
+/**
+ * Register how pbBrowser renews the session after a 401 response
+ * Set by AuthProvider while a user is signed in
+ * @returns A function removing the handler
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler) {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) {
+      unauthorizedHandler = undefined;
+    }
+  };
+}
+
+/**
+ * Retries a request once when it failed with 401 and the session
+ * could be renewed. proxy.ts attaches the renewed cookie to the retry.
+ */
+class BrowserPocketBase extends PocketBase {
+  override async send<T>(path: string, options: SendOptions): Promise<T> {
+    try {
+      return await super.send<T>(path, options);
+    } catch (err) {
+      const handler = unauthorizedHandler;
+      if (
+        err instanceof ClientResponseError &&
+        err.status === 401 &&
+        handler &&
+        (await handler())
+      ) {
+        return super.send<T>(path, options);
+      }
+      throw err;
+    }
+  }
+}
 
 /**
  * Browser/Client-side PocketBase client
  * Use this in Client Components
  * Connects through Next.js rewrite proxy (/api/pocketbase)
+ *
+ * The token lives in the httpOnly pb_auth cookie and is attached to
+ * proxied requests by proxy.ts, so this client keeps an in-memory
+ * auth store and never persists anything to localStorage.
  */
-export const pbBrowser = new PocketBase(
+export const pbBrowser = new BrowserPocketBase(
   typeof window !== "undefined"
     ? `${window.location.origin}/api/pocketbase`
-    : "http://127.0.0.1:8080"
-);
+    : "http://127.0.0.1:8080",
+  new BaseAuthStore()
+) as TypedClient<UsersResponse>;
 
 export type PocketBaseBrowserClient = typeof pbBrowser;
@@ -1,12 +1,78 @@
+import "server-only";
+
+import { cookies, headers } from "next/headers";
 import PocketBase from "pocketbase";
+import { cache } from "react";
+import { AUTH_COOKIE_NAME } from "@/shared/auth/cookie";
+import { serverConfig } from "@/shared/config/server";
+import {
+  ACTIVE_ORG_COOKIE_NAME,
+  ORG_HEADER,
+} from "@/shared/organizations/cookie";
+import type { TypedClient } from "./typed-client";
+import type { TypedPocketBase, UsersResponse } from "./types";
 
 /**
- * Server-side PocketBase client
- * Use this in Server Components and Server Actions
+ * Server-side PocketBase client (singleton, anonymous)
+ * Use this only for public, non user-scoped calls (health checks, file URLs)
  * Connects directly to PocketBase via internal network
  */
 export const pbServer = new PocketBase(
-  process.env.POCKETBASE_URL ?? "http://127.0.0.1:8080"
-);
+  serverConfig.pocketbaseUrl
+) as TypedPocketBase;
 
 export type PocketBaseServerClient = typeof pbServer;
+
+/**
+ * Headers identifying the visitor of the current request
+ * Forwarded to PocketBase, so sign-in history and auth origins see the
+ * user's browser instead of this server. PocketBase only reads the IP
+ * when X-Forwarded-For is a trusted proxy header (see README).
+ */
+export const getForwardedHeaders = cache(async () => {
+  const headerStore = await headers();
+  const forwarded: Record<string, string> = {};
+  for (const name of ["user-agent", "x-forwarded-for"]) {
+    const value = headerStore.get(name);
+    if (value) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+});
+
+/**
+ * Per-request PocketBase client bound to the user's pb_auth cookie
+ * Use this in Server Components and Server Actions for user-scoped calls
+ * Requests carry the active organization for org-scoped API rules,
+ * and the visitor's IP and user agent.
+ *
+ * Cached with React `cache`, so every call within the same request
+ * shares one instance and auth state never leaks between requests.
+ */
+export const createServerClient = cache(async () => {
+  const pb = new PocketBase(
+    serverConfig.pocketbaseUrl
+  ) as TypedClient<UsersResponse>;
+  // Concurrent server component fetches must not cancel each other
+  pb.autoCancellation(false);
+
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get(AUTH_COOKIE_NAME);
+  if (authCookie?.value) {
+    pb.authStore.loadFromCookie(`${AUTH_COOKIE_NAME}=${authCookie.value}`);
+  }
+
+  const activeOrg = cookieStore.get(ACTIVE_ORG_COOKIE_NAME)?.value;
+  const forwarded = await getForwardedHeaders();
+  pb.beforeSend = (url, options) => {
+    options.headers = {
+      ...options.headers,
+      ...forwarded,
+      ...(activeOrg && { [ORG_HEADER]: activeOrg }),
+    };
+    return { url, options };
+  };
+
+  return pb;
+});
@@ -0,0 +1,57 @@
+import type { useAuth } from "@/shared/providers/auth-provider";
+import type { storage } from "@/shared/storage/storage";
+import type { PocketBaseAdminClient } from "./admin";
+import type { PocketBaseBrowserClient } from "./browser";
+import type { PocketBaseServerClient } from "./server";
+import { Collections } from "./types";
+
+/**
+ * Type-level tests, checked by `tsc --noEmit` and never run
+ * Each `@ts-expect-error` fails the type check when the misuse below it
+ * starts compiling, e.g. after loosening a client or helper type.
+ */
+
+declare const pbBrowser: PocketBaseBrowserClient;
+declare const pbServer: PocketBaseServerClient;
+declare const pbAdmin: PocketBaseAdminClient;
+declare const storageHelpers: typeof storage;
+declare const auth: ReturnType<typeof useAuth>;
+declare const file: File;
+
+export async function typedClients() {
+  const organization = await pbBrowser.collection("organizations").getOne("id");
+  organization.name.toUpperCase();
+  // @ts-expect-error organizations have no email field
+  organization.email;
+
+  const user = await pbServer.collection(Collections.Users).getOne("id");
+  user.email.toLowerCase();
+  // @ts-expect-error users have no unknownField field
+  user.unknownField;
+
+  const admin = await pbAdmin.collection("_superusers").getOne("id");
+  admin.email.toLowerCase();
+  // @ts-expect-error superusers have no role field
+  admin.role;
+}
+
+export async function typedStorage() {
+  await storageHelpers.uploadFile(Collections.Users, "id", "avatar", file);
+  // @ts-expect-error posts is not a collection
+  await storageHelpers.uploadFile("posts", "id", "avatar", file);
+  // @ts-expect-error name is not a file field
+  await storageHelpers.uploadFile(Collections.Users, "id", "name", file);
+  await storageHelpers.uploadFile(
+    Collections.Organizations,
+    "id",
+    // @ts-expect-error organizations have no file fields
+    "avatar",
+    file
+  );
+}
+
+export function typedAuth() {
+  auth.user?.name.toUpperCase();
+  // @ts-expect-error useAuth().user is a UsersResponse
+  auth.user?.unknownField;
+}
@@ -0,0 +1,16 @@
+import type { BaseAuthStore } from "pocketbase";
+import type { TypedPocketBase } from "./types";
+
+/**
+ * Auth store whose record is typed as an auth collection response
+ */
+export type TypedAuthStore<T> = BaseAuthStore & { readonly record: T | null };
+
+/**
+ * TypedPocketBase with the auth store record typed as well
+ * @example
+ * const pb = new PocketBase(url) as TypedClient<UsersResponse>;
+ */
+export type TypedClient<T> = TypedPocketBase & {
+  authStore: TypedAuthStore<T>;
+};
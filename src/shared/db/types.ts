@@ -11,6 +11,12 @@ export enum Collections {
   Mfas = "_mfas",
   Otps = "_otps",
   Superusers = "_superusers",
+  Files = "files",
+  Invitations = "invitations",
+  LoginEvents = "login_events",
+  Memberships = "memberships",
+  Organizations = "organizations",
+  StorageObjects = "storage_objects",
   Users = "users",
 }
 
@@ -92,14 +98,94 @@ export type SuperusersRecord = {
   verified?: boolean;
 };
 
+export type FilesRecord = {
+  contentType?: string;
+  created: IsoAutoDateString;
+  id: string;
+  key: string;
+  name: string;
+  organization?: RecordIdString;
+  owner: RecordIdString;
+  size: number;
+  updated: IsoAutoDateString;
+};
+
+export enum InvitationsRoleOptions {
+  admin = "admin",
+  member = "member",
+}
+export type InvitationsRecord = {
+  created: IsoAutoDateString;
+  email: string;
+  id: string;
+  invitedBy: RecordIdString;
+  organization: RecordIdString;
+  role: InvitationsRoleOptions;
+  token?: string;
+  updated: IsoAutoDateString;
+};
+
+export enum LoginEventsMethodOptions {
+  password = "password",
+  oauth2 = "oauth2",
+  otp = "otp",
+}
+export type LoginEventsRecord = {
+  created: IsoAutoDateString;
+  id: string;
+  ip?: string;
+  method: LoginEventsMethodOptions;
+  updated: IsoAutoDateString;
+  user: RecordIdString;
+  userAgent?: string;
+};
+
+export enum MembershipsRoleOptions {
+  owner = "owner",
+  admin = "admin",
+  member = "member",
+}
+export type MembershipsRecord = {
+  created: IsoAutoDateString;
+  id: string;
+  organization: RecordIdString;
+  role: MembershipsRoleOptions;
+  updated: IsoAutoDateString;
+  user: RecordIdString;
+};
+
+export type OrganizationsRecord = {
+  created: IsoAutoDateString;
+  id: string;
+  name: string;
+  updated: IsoAutoDateString;
+};
+
+export type StorageObjectsRecord = {
+  contentType?: string;
+  created: IsoAutoDateString;
+  file: FileNameString;
+  id: string;
+  key: string;
+  size: number;
+  updated: IsoAutoDateString;
+};
+
+export enum UsersRoleOptions {
+  user = "user",
+  editor = "editor",
+  admin = "admin",
+}
 export type UsersRecord = {
   avatar?: FileNameString;
   created: IsoAutoDateString;
   email: string;
   emailVisibility?: boolean;
   id: string;
+  mfaEnabled?: boolean;
   name?: string;
   password: string;
+  role?: UsersRoleOptions;
   tokenKey: string;
   updated: IsoAutoDateString;
   verified?: boolean;
@@ -116,6 +202,18 @@ export type OtpsResponse<Texpand = unknown> = Required<OtpsRecord> &
   BaseSystemFields<Texpand>;
 export type SuperusersResponse<Texpand = unknown> = Required<SuperusersRecord> &
   AuthSystemFields<Texpand>;
+export type FilesResponse<Texpand = unknown> = Required<FilesRecord> &
+  BaseSystemFields<Texpand>;
+export type InvitationsResponse<Texpand = unknown> =
+  Required<InvitationsRecord> & BaseSystemFields<Texpand>;
+export type LoginEventsResponse<Texpand = unknown> =
+  Required<LoginEventsRecord> & BaseSystemFields<Texpand>;
+export type MembershipsResponse<Texpand = unknown> =
+  Required<MembershipsRecord> & BaseSystemFields<Texpand>;
+export type OrganizationsResponse<Texpand = unknown> =
+  Required<OrganizationsRecord> & BaseSystemFields<Texpand>;
+export type StorageObjectsResponse<Texpand = unknown> =
+  Required<StorageObjectsRecord> & BaseSystemFields<Texpand>;
 export type UsersResponse<Texpand = unknown> = Required<UsersRecord> &
   AuthSystemFields<Texpand>;
 
@@ -127,6 +225,12 @@ export type CollectionRecords = {
   _mfas: MfasRecord;
   _otps: OtpsRecord;
   _superusers: SuperusersRecord;
+  files: FilesRecord;
+  invitations: InvitationsRecord;
+  login_events: LoginEventsRecord;
+  memberships: MembershipsRecord;
+  organizations: OrganizationsRecord;
+  storage_objects: StorageObjectsRecord;
   users: UsersRecord;
 };
 
@@ -136,6 +240,12 @@ export type CollectionResponses = {
   _mfas: MfasResponse;
   _otps: OtpsResponse;
   _superusers: SuperusersResponse;
+  files: FilesResponse;
+  invitations: InvitationsResponse;
+  login_events: LoginEventsResponse;
+  memberships: MembershipsResponse;
+  organizations: OrganizationsResponse;
+  storage_objects: StorageObjectsResponse;
   users: UsersResponse;
 };
 
@@ -0,0 +1,84 @@
+"use server";
+
+import { getCurrentUser } from "@/shared/auth/server";
+import type { FilesResponse } from "@/shared/db/types";
+import { type ErrorResult, toErrorResult } from "@/shared/lib/errors";
+import { storageDriver } from "@/shared/storage/storage-driver";
+import { createUploadKey, isOwnUploadKey } from "@/shared/storage/upload-keys";
+import { recordStoredFile } from "./server";
+import { type UploadInfo, uploadInfoSchema } from "./uploads";
+
+/**
+ * File upload Server Actions
+ * The browser uploads straight to storage with a signed URL, then the
+ * upload is recorded in the `files` collection, which is only writable
+ * with superuser access so records always match a stored object
+ */
+
+export type CreateUploadResult = { key: string; url: string } | ErrorResult;
+
+export type RecordUploadResult = { file: FilesResponse } | ErrorResult;
+
+const parseInfo = (info: UploadInfo) => {
+  const parsed = uploadInfoSchema.safeParse(info);
+  return parsed.success
+    ? { data: parsed.data }
+    : { error: parsed.error.issues[0].message };
+};
+
+/**
+ * Get a signed URL to upload a file as the current user
+ */
+export async function createUpload(
+  info: UploadInfo
+): Promise<CreateUploadResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+  const parsed = parseInfo(info);
+  if (!parsed.data) {
+    return { error: parsed.error };
+  }
+
+  try {
+    const key = createUploadKey(user.id, parsed.data.name);
+    const url = await storageDriver.signedUrl(key, {
+      method: "PUT",
+      contentType: parsed.data.type,
+    });
+    return { key, url };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Record an uploaded object, owned by the current user and shared with
+ * their active organization
+ * @param key - The key returned by `createUpload`
+ */
+export async function recordUpload(
+  key: string,
+  info: UploadInfo
+): Promise<RecordUploadResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+  const parsed = parseInfo(info);
+  if (!parsed.data) {
+    return { error: parsed.error };
+  }
+  // pbAdmin skips the createRule, so the owner must be the user verified
+  // by getCurrentUser and the key must be under their prefix
+  if (!isOwnUploadKey(user.id, key)) {
+    return { error: "Upload not found" };
+  }
+
+  try {
+    return await recordStoredFile(user.id, key, parsed.data);
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
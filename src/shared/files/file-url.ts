@@ -0,0 +1,20 @@
+/**
+ * URL serving a stored file through /api/files, which checks access
+ * @param options.download - Save the file instead of opening it
+ * @param options.stream - Stream through the app instead of redirecting to R2
+ */
+export function getFileUrl(
+  key: string,
+  options: { download?: boolean; stream?: boolean } = {}
+) {
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  const query = new URLSearchParams();
+  if (options.download) {
+    query.set("download", "1");
+  }
+  if (options.stream) {
+    query.set("stream", "1");
+  }
+  const search = query.size > 0 ? `?${query}` : "";
+  return `/api/files/${path}${search}`;
+}
@@ -0,0 +1,67 @@
+import "server-only";
+
+import { cache } from "react";
+import { pbAdmin } from "@/shared/db/admin";
+import { createServerClient } from "@/shared/db/server";
+import type { FilesResponse } from "@/shared/db/types";
+import type { ErrorResult } from "@/shared/lib/errors";
+import { getActiveMembership } from "@/shared/organizations/server";
+import { storageDriver } from "@/shared/storage/storage-driver";
+import { type UploadInfo, uploadInfoSchema } from "./uploads";
+
+/**
+ * Get the `files` record of an object key as the current user
+ * The collection rules only return records the user owns or shares an
+ * organization with
+ * @returns The record, or null when it is unknown or not readable
+ */
+export const getFileByKey = cache(async (key: string) => {
+  const pb = await createServerClient();
+  if (!pb.authStore.isValid) {
+    return null;
+  }
+  try {
+    return await pb
+      .collection("files")
+      .getFirstListItem(pb.filter("key = {:key}", { key }));
+  } catch {
+    return null;
+  }
+});
+
+/**
+ * Record an uploaded object in the `files` collection, owned by the user
+ * and shared with their active organization
+ * Uploads URLs don't limit the size, so the stored object is checked
+ * against the schema the upload was started with, and deleted when it
+ * doesn't fit. pbAdmin skips the collection's createRule: `userId` must
+ * come from `getCurrentUser` and `key` be one of the user's upload keys.
+ * @param schema - `uploadInfoSchema` or `multipartUploadInfoSchema`
+ */
+export async function recordStoredFile(
+  userId: string,
+  key: string,
+  info: UploadInfo,
+  schema = uploadInfoSchema
+): Promise<{ file: FilesResponse } | ErrorResult> {
+  const object = await storageDriver.head(key);
+  if (!object) {
+    return { error: "The upload did not finish, please try again" };
+  }
+  const size = schema.shape.size.safeParse(object.size);
+  if (!size.success) {
+    await storageDriver.delete(key);
+    return { error: size.error.issues[0].message };
+  }
+
+  const membership = await getActiveMembership();
+  const file = await pbAdmin.collection("files").create({
+    key,
+    name: info.name,
+    size: object.size,
+    contentType: info.type,
+    owner: userId,
+    organization: membership?.organization ?? "",
+  });
+  return { file };
+}
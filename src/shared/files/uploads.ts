@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+/** Largest file accepted, uploaded with a single presigned PUT */
+export const UPLOAD_MAX_SIZE = 100 * 1024 * 1024;
+
+/** Largest file accepted from `uploadMultipart` */
+export const MULTIPART_UPLOAD_MAX_SIZE = 5 * 1024 * 1024 * 1024;
+
+export const UPLOAD_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/zip",
+  "video/mp4",
+] as const;
+
+/**
+ * Name, type and size of a file to upload
+ * Checked in the browser before uploading and again by the Server Actions
+ */
+export const uploadInfoSchema = z.object({
+  name: z.string().trim().min(1, "File name is required").max(255),
+  type: z.enum(UPLOAD_TYPES, { message: "This file type is not allowed" }),
+  size: z
+    .number()
+    .int()
+    .min(1, "This file is empty")
+    .max(UPLOAD_MAX_SIZE, "File must be 100 MB or smaller"),
+});
+
+/**
+ * Upload info of multipart uploads, which allow larger files
+ * Checked by the /api/uploads/multipart routes
+ */
+export const multipartUploadInfoSchema = uploadInfoSchema.extend({
+  size: z
+    .number()
+    .int()
+    .min(1, "This file is empty")
+    .max(MULTIPART_UPLOAD_MAX_SIZE, "File must be 5 GB or smaller"),
+});
+
+export type UploadInfo = z.infer<typeof uploadInfoSchema>;
@@ -0,0 +1,122 @@
+import { ClientResponseError } from "pocketbase";
+
+/**
+ * PocketBase error normalization
+ * Turns ClientResponseError into friendly messages, per field where
+ * PocketBase reports them in `response.data`
+ */
+
+/** Friendly message per form field, keyed by PocketBase field name */
+export type FieldErrors = Record<string, string>;
+
+/** Error result of a Server Action, with the fields that caused it */
+export interface ErrorResult {
+  error: string;
+  fieldErrors?: FieldErrors;
+}
+
+interface PocketBaseFieldError {
+  code: string;
+  message: string;
+  params?: Record<string, unknown>;
+}
+
+type MessageTemplate = string | ((params: Record<string, unknown>) => string);
+
+/**
+ * Messages for PocketBase validation codes
+ * Keys prefixed with a field name take precedence, e.g. "email.validation_not_unique"
+ */
+const validationMessages: Record<string, MessageTemplate> = {
+  "email.validation_not_unique": "An account with this email already exists",
+  "newEmail.validation_not_unique": "An account with this email already exists",
+  validation_required: "This field is required",
+  validation_not_unique: "This value is already taken",
+  validation_invalid_email: "Please enter a valid email",
+  validation_is_email: "Please enter a valid email",
+  validation_min_text_constraint: ({ min }) =>
+    `Must be at least ${min} characters`,
+  validation_max_text_constraint: ({ max }) =>
+    `Must be at most ${max} characters`,
+  validation_length_too_short: ({ min }) =>
+    `Must be at least ${min} characters`,
+  validation_length_too_long: ({ max }) => `Must be at most ${max} characters`,
+  validation_length_out_of_range: ({ min, max }) =>
+    `Must be between ${min} and ${max} characters`,
+  validation_values_mismatch: "Values don't match",
+  validation_invalid_old_password: "Current password is incorrect",
+  validation_invalid_password: "Incorrect password",
+  validation_invalid_token: "This link is invalid or has expired",
+  validation_invalid_value: "Please choose a valid value",
+  validation_invalid_mime_type: "This file type is not allowed",
+  validation_file_size_limit: "This file is too large",
+};
+
+/** Messages for requests that failed without field errors */
+const statusMessages: Record<number, string> = {
+  0: "Could not reach the server, check your connection",
+  401: "Please sign in again",
+  403: "You don't have permission to do this",
+  429: "Too many requests, please try again later",
+};
+
+const toFieldMessage = (field: string, error: PocketBaseFieldError) => {
+  const template =
+    validationMessages[`${field}.${error.code}`] ??
+    validationMessages[error.code];
+  if (!template) {
+    return error.message;
+  }
+  return typeof template === "string" ? template : template(error.params ?? {});
+};
+
+/**
+ * Get the friendly message of every field PocketBase rejected
+ * @returns The messages, empty for other errors
+ */
+export const getFieldErrors = (err: unknown): FieldErrors => {
+  if (!(err instanceof ClientResponseError)) {
+    return {};
+  }
+  const data = (err.response?.data ?? {}) as Record<
+    string,
+    PocketBaseFieldError | undefined
+  >;
+  const fieldErrors: FieldErrors = {};
+  for (const [field, error] of Object.entries(data)) {
+    if (error?.code) {
+      fieldErrors[field] = toFieldMessage(field, error);
+    }
+  }
+  return fieldErrors;
+};
+
+/**
+ * Turn a thrown PocketBase (or any) error into a message for the UI
+ * Prefers the first field error over PocketBase's generic messages,
+ * such as "Failed to create record."
+ */
+export const toErrorMessage = (err: unknown) => {
+  if (err instanceof ClientResponseError) {
+    if (err.isAbort) {
+      return "The request was cancelled";
+    }
+    const [fieldMessage] = Object.values(getFieldErrors(err));
+    return fieldMessage ?? statusMessages[err.status] ?? err.message;
+  }
+  if (err instanceof Error) {
+    return err.message;
+  }
+  return "Something went wrong";
+};
+
+/**
+ * Turn a thrown error into a Server Action error result
+ * Forms pass `fieldErrors` to `applyFieldErrors` to show them per input
+ */
+export const toErrorResult = (err: unknown): ErrorResult => {
+  const fieldErrors = getFieldErrors(err);
+  return Object.keys(fieldErrors).length > 0
+    ? { error: toErrorMessage(err), fieldErrors }
+    : { error: toErrorMessage(err) };
+};
@@ -0,0 +1,54 @@
+import type {
+  FieldPath,
+  FieldValues,
+  UseFormGetValues,
+  UseFormSetError,
+} from "react-hook-form";
+import type { FieldErrors } from "./errors";
+
+/** The parts of a `useForm` return value that errors are applied to */
+export interface FormErrorTarget<T extends FieldValues> {
+  getValues: UseFormGetValues<T>;
+  setError: UseFormSetError<T>;
+}
+
+/**
+ * Show PocketBase field errors under the matching react-hook-form inputs
+ *
+ * @param form - The form returned by `useForm`
+ * @param fieldErrors - From `getFieldErrors` or a Server Action's `fieldErrors`
+ * @param aliases - Form field names of PocketBase fields named differently,
+ *   e.g. `{ passwordConfirm: "confirmPassword" }`
+ * @returns Whether every error was shown on a field, so callers only show
+ *   a form-level message for the rest
+ *
+ * @example
+ * const result = await updateProfile(data.name);
+ * if ("error" in result && !applyFieldErrors(form, result.fieldErrors)) {
+ *   setError(result.error);
+ * }
+ */
+export function applyFieldErrors<T extends FieldValues>(
+  form: FormErrorTarget<T>,
+  fieldErrors: FieldErrors | undefined,
+  aliases: Partial<Record<string, FieldPath<T>>> = {}
+) {
+  const entries = Object.entries(fieldErrors ?? {});
+  if (entries.length === 0) {
+    return false;
+  }
+
+  const values = form.getValues();
+  let allShown = true;
+  let isFirst = true;
+  for (const [field, message] of entries) {
+    const name = aliases[field] ?? (field as FieldPath<T>);
+    if (!(name in values)) {
+      allShown = false;
+      continue;
+    }
+    form.setError(name, { type: "server", message }, { shouldFocus: isFirst });
+    isFirst = false;
+  }
+  return allShown;
+}
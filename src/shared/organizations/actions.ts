@@ -0,0 +1,155 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { z } from "zod";
+import type { ActionResult } from "@/shared/auth/actions";
+import { getCurrentUser } from "@/shared/auth/server";
+import { pbAdmin } from "@/shared/db/admin";
+import { createServerClient } from "@/shared/db/server";
+import {
+  InvitationsRoleOptions,
+  MembershipsRoleOptions,
+  type OrganizationsResponse,
+} from "@/shared/db/types";
+import { type ErrorResult, toErrorResult } from "@/shared/lib/errors";
+import { ACTIVE_ORG_COOKIE_NAME, activeOrgCookieOptions } from "./cookie";
+import { getActiveMembership, getInvitation, getMemberships } from "./server";
+
+/**
+ * Organization Server Actions
+ * Run as the signed-in user, so the PocketBase API rules apply, except
+ * for accepting invitations which needs superuser access
+ */
+
+export type OrganizationActionResult =
+  | { organization: OrganizationsResponse }
+  | ErrorResult;
+
+const nameSchema = z.string().trim().min(1).max(100);
+
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(InvitationsRoleOptions),
+});
+
+async function setActiveOrganization(organizationId: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(
+    ACTIVE_ORG_COOKIE_NAME,
+    organizationId,
+    activeOrgCookieOptions
+  );
+}
+
+/**
+ * Create an organization owned by the current user and switch to it
+ * The owner membership is added by pb_hooks/main.pb.js
+ */
+export async function createOrganization(
+  name: string
+): Promise<OrganizationActionResult> {
+  const parsed = nameSchema.safeParse(name);
+  if (!parsed.success) {
+    return { error: "Please enter a name" };
+  }
+
+  try {
+    const pb = await createServerClient();
+    const organization = await pb
+      .collection("organizations")
+      .create({ name: parsed.data });
+    await setActiveOrganization(organization.id);
+    return { organization };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Make one of the current user's organizations the active one
+ */
+export async function switchOrganization(
+  organizationId: string
+): Promise<ActionResult> {
+  const memberships = await getMemberships();
+  if (!memberships.some((m) => m.organization === organizationId)) {
+    return { error: "You are not a member of this organization" };
+  }
+  await setActiveOrganization(organizationId);
+  return { success: true };
+}
+
+/**
+ * Invite someone to the active organization by email
+ * Only owners and admins pass the invitations create rule
+ */
+export async function inviteMember(
+  email: string,
+  role: InvitationsRoleOptions
+): Promise<ActionResult> {
+  const parsed = inviteSchema.safeParse({ email, role });
+  if (!parsed.success) {
+    return { error: "Please enter a valid email" };
+  }
+
+  const membership = await getActiveMembership();
+  if (!membership) {
+    return { error: "Select an organization first" };
+  }
+
+  try {
+    const pb = await createServerClient();
+    await pb.collection("invitations").create({
+      organization: membership.organization,
+      email: parsed.data.email,
+      role: parsed.data.role,
+      invitedBy: membership.user,
+    });
+    return { success: true };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
+
+/**
+ * Join an organization with the token from an invitation email
+ * The invitation must have been sent to the current user's email
+ */
+export async function acceptInvitation(
+  token: string
+): Promise<OrganizationActionResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "You must be signed in" };
+  }
+
+  const invitation = await getInvitation(token);
+  if (!invitation) {
+    return { error: "This invitation is invalid or has expired" };
+  }
+  if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+    return { error: `This invitation was sent to ${invitation.email}` };
+  }
+  // Anyone can sign up with the invited address, only its owner verifies it
+  if (!user.verified) {
+    return {
+      error: "Verify your email address before accepting this invitation",
+    };
+  }
+
+  try {
+    const memberships = await getMemberships();
+    if (!memberships.some((m) => m.organization === invitation.organization)) {
+      await pbAdmin.collection("memberships").create({
+        organization: invitation.organization,
+        user: user.id,
+        role: MembershipsRoleOptions[invitation.role],
+      });
+    }
+    await pbAdmin.collection("invitations").delete(invitation.id);
+    await setActiveOrganization(invitation.organization);
+    return { organization: invitation.expand.organization };
+  } catch (err) {
+    return toErrorResult(err);
+  }
+}
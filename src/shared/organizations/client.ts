@@ -0,0 +1,35 @@
+"use client";
+
+import type { QueryClient } from "@tanstack/react-query";
+import { collectionKeys } from "@/shared/api/query-keys";
+import type { MembershipWithOrganization } from "./server";
+
+export interface OrganizationsSnapshot {
+  memberships: MembershipWithOrganization[];
+  activeOrganizationId: string | null;
+}
+
+/** Organizations of a user, refetched when switching organization */
+export const organizationsQueryKey = (userId: string) =>
+  ["organizations", userId] as const;
+
+/**
+ * Fetch the signed-in user's organizations and the active one
+ */
+export async function fetchOrganizations(): Promise<OrganizationsSnapshot> {
+  const res = await fetch("/api/organizations", { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error("Failed to load organizations");
+  }
+  return (await res.json()) as OrganizationsSnapshot;
+}
+
+/**
+ * Refetch everything that depends on the active organization
+ * Call after switching, creating or joining an organization
+ */
+export const invalidateOrganizationData = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: ["organizations"] }),
+    queryClient.invalidateQueries({ queryKey: collectionKeys.root }),
+  ]);
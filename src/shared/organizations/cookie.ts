@@ -0,0 +1,22 @@
+import { config } from "@/shared/config/public";
+
+/** Name of the cookie holding the active organization id */
+export const ACTIVE_ORG_COOKIE_NAME = "active_org";
+
+/**
+ * Header carrying the active organization to PocketBase, where API
+ * rules read it as `@request.headers.x_organization`
+ */
+export const ORG_HEADER = "x-organization";
+
+/**
+ * Written by Server Actions only; rules still check membership, so a
+ * forged value never grants access to another organization
+ */
+export const activeOrgCookieOptions = {
+  httpOnly: true,
+  secure: config.isProd,
+  sameSite: "lax",
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+} as const;
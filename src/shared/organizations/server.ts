@@ -0,0 +1,84 @@
+import "server-only";
+
+import { cookies } from "next/headers";
+import { cache } from "react";
+import { getCurrentUser } from "@/shared/auth/server";
+import { pbAdmin } from "@/shared/db/admin";
+import { createServerClient } from "@/shared/db/server";
+import type {
+  InvitationsResponse,
+  MembershipsResponse,
+  OrganizationsResponse,
+} from "@/shared/db/types";
+import { ACTIVE_ORG_COOKIE_NAME } from "./cookie";
+
+/**
+ * Organizations - Server-side helpers
+ * The active organization is the `active_org` cookie, set by
+ * `switchOrganization` and the other organization Server Actions.
+ */
+
+export type MembershipWithOrganization = MembershipsResponse<{
+  organization: OrganizationsResponse;
+}>;
+
+export type InvitationWithOrganization = InvitationsResponse<{
+  organization: OrganizationsResponse;
+}>;
+
+/** Invitations can be accepted for this long after they were sent */
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the memberships of the signed-in user, with their organization
+ * @returns The memberships, empty when signed out
+ */
+export const getMemberships = cache(async () => {
+  const user = await getCurrentUser();
+  if (!user) {
+    return [];
+  }
+  const pb = await createServerClient();
+  return pb.collection("memberships").getFullList<MembershipWithOrganization>({
+    filter: pb.filter("user = {:userId}", { userId: user.id }),
+    expand: "organization",
+    sort: "created",
+  });
+});
+
+/**
+ * Get the signed-in user's membership in the active organization
+ * @returns The membership, or null when no organization is selected
+ */
+export const getActiveMembership = cache(async () => {
+  const cookieStore = await cookies();
+  const activeOrg = cookieStore.get(ACTIVE_ORG_COOKIE_NAME)?.value;
+  if (!activeOrg) {
+    return null;
+  }
+  const memberships = await getMemberships();
+  return (
+    memberships.find((membership) => membership.organization === activeOrg) ??
+    null
+  );
+});
+
+/**
+ * Look up a pending invitation by the token from its email
+ * Uses superuser access, since the token field is hidden from the API
+ * @returns The invitation, or null when it is unknown or expired
+ */
+export async function getInvitation(token: string) {
+  try {
+    const invitation = await pbAdmin
+      .collection("invitations")
+      .getFirstListItem<InvitationWithOrganization>(
+        pbAdmin.filter("token = {:token}", { token }),
+        { expand: "organization" }
+      );
+    const age = Date.now() - new Date(invitation.created).getTime();
+    return age < INVITATION_TTL_MS ? invitation : null;
+  } catch {
+    return null;
+  }
+}
@@ -1,87 +1,189 @@
 "use client";
 
-import type { RecordModel } from "pocketbase";
+import { hashKey, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
 import {
   createContext,
   type ReactNode,
-  useCallback,
   useContext,
   useEffect,
   useState,
-  useSyncExternalStore,
 } from "react";
-import { pbBrowser } from "@/shared/db/browser";
+import {
+  fetchSession,
+  fetchSessionExpiry,
+  renewSession,
+  sessionExpiryQueryKey,
+  sessionQueryKey,
+} from "@/shared/auth/client";
+import {
+  broadcastAuthChange,
+  getAuthChange,
+  onAuthChange,
+} from "@/shared/auth/sync";
+import { setUnauthorizedHandler } from "@/shared/db/browser";
+import type { UsersResponse } from "@/shared/db/types";
 
 type AuthContextValue = {
-  user: RecordModel | null;
+  user: UsersResponse | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** When the session token expires, null when signed out */
+  expiresAt: Date | null;
+  /** The session ended because the token could not be renewed */
+  sessionExpired: boolean;
+  dismissSessionExpired: () => void;
 };
 
-const AuthContext = createContext<AuthContextValue | null>(null);
-
-// Cache for stable snapshot references to avoid infinite loops
-let cachedUser: RecordModel | null = null;
-let cachedUserId: string | undefined;
-
-function getUserSnapshot(): RecordModel | null {
-  const currentRecord = pbBrowser.authStore.record;
-  const currentId = currentRecord?.id;
-  // Only update cache if the record id changed
-  if (currentId !== cachedUserId) {
-    cachedUser = currentRecord;
-    cachedUserId = currentId;
-  }
-  return cachedUser;
-}
-
-function getIsValidSnapshot(): boolean {
-  return pbBrowser.authStore.isValid;
-}
-
-function getServerUserSnapshot(): RecordModel | null {
-  return null;
-}
+// Renew the token this long before it expires
+const REFRESH_AHEAD_MS = 5 * 60 * 1000;
+// Longest delay setTimeout supports
+const MAX_TIMEOUT_MS = 2_147_483_647;
 
-function getServerIsValidSnapshot(): boolean {
-  return false;
-}
+const AuthContext = createContext<AuthContextValue | null>(null);
 
 /**
- * Auth Provider that subscribes to PocketBase auth store changes
+ * Auth Provider hydrated from the server-provided session snapshot
  * Provides reactive auth state throughout the app
+ *
+ * Sign in / sign out update the ["me"] query, so components
+ * re-render as soon as the auth state changes. Those updates are
+ * broadcast to the other open tabs, which refetch their session.
+ *
+ * The token is renewed ahead of expiry and after 401 responses from
+ * pbBrowser. When that fails, the user is signed out and
+ * `sessionExpired` is set.
  */
 export function AuthProvider({ children }: { children: ReactNode }) {
-  // Track hydration state - true until client has mounted
-  const [isLoading, setIsLoading] = useState(true);
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { data: user = null, isPending } = useQuery({
+    queryKey: sessionQueryKey,
+    queryFn: fetchSession,
+  });
+  const userId = user?.id;
+  const { data: expiresAt = null } = useQuery({
+    queryKey: sessionExpiryQueryKey(userId ?? ""),
+    queryFn: fetchSessionExpiry,
+    enabled: userId !== undefined,
+  });
+
+  const [sessionExpired, setSessionExpired] = useState(false);
+  if (sessionExpired && user) {
+    setSessionExpired(false);
+  }
 
+  // Keep the session in sync with the other open tabs
+  useEffect(() => {
+    const sessionHash = hashKey(sessionQueryKey);
+    let userId = queryClient.getQueryData<UsersResponse | null>(
+      sessionQueryKey
+    )?.id;
+
+    // Nothing cached for the previous user may outlive the session
+    const clearUserQueries = () =>
+      queryClient.removeQueries({
+        predicate: (query) => query.queryHash !== sessionHash,
+      });
+
+    // Announce changes made in this tab
+    const unsubscribeCache = queryClient.getQueryCache().subscribe((event) => {
+      if (
+        event.type !== "updated" ||
+        event.action.type !== "success" ||
+        event.query.queryHash !== sessionHash
+      ) {
+        return;
+      }
+      const previousId = userId;
+      userId = (event.action.data as UsersResponse | null)?.id;
+
+      // Only setQueryData calls are local changes, refetches are not
+      if (!event.action.manual) {
+        return;
+      }
+      const change = getAuthChange(previousId, userId);
+      if (change === "sign-out") {
+        clearUserQueries();
+      }
+      if (change) {
+        broadcastAuthChange(change);
+      }
+    });
+
+    // Follow changes made in other tabs
+    const unsubscribeTabs = onAuthChange((event) => {
+      if (event === "sign-out") {
+        clearUserQueries();
+        userId = undefined;
+        queryClient.setQueryData(sessionQueryKey, null);
+      } else {
+        queryClient.invalidateQueries({ queryKey: sessionQueryKey });
+      }
+      router.refresh();
+    });
+
+    return () => {
+      unsubscribeCache();
+      unsubscribeTabs();
+    };
+  }, [queryClient, router]);
+
+  // Keep the session alive: renew ahead of expiry and after 401 responses
   useEffect(() => {
-    // Once mounted on client, we have access to localStorage/authStore
-    setIsLoading(false);
-  }, []);
-
-  const subscribe = useCallback((callback: () => void) => {
-    return pbBrowser.authStore.onChange(callback);
-  }, []);
-
-  // Subscribe to PocketBase auth store changes using useSyncExternalStore
-  // This ensures components re-render when auth state changes
-  const isAuthenticated = useSyncExternalStore(
-    subscribe,
-    getIsValidSnapshot,
-    getServerIsValidSnapshot
-  );
-
-  const user = useSyncExternalStore(
-    subscribe,
-    getUserSnapshot,
-    getServerUserSnapshot
-  );
+    if (!userId) {
+      return;
+    }
+
+    const renew = async () => {
+      try {
+        const result = await renewSession();
+        if ("expired" in result) {
+          setSessionExpired(true);
+          queryClient.setQueryData(sessionQueryKey, null);
+          return false;
+        }
+        if ("error" in result) {
+          return false;
+        }
+        queryClient.setQueryData(
+          sessionExpiryQueryKey(result.user.id),
+          result.expiresAt
+        );
+        queryClient.setQueryData(sessionQueryKey, result.user);
+        return true;
+      } catch {
+        // Offline, the next request or timer tries again
+        return false;
+      }
+    };
+
+    const removeHandler = setUnauthorizedHandler(renew);
+    const timeout =
+      expiresAt === null
+        ? undefined
+        : setTimeout(
+            renew,
+            Math.min(
+              Math.max(expiresAt - REFRESH_AHEAD_MS - Date.now(), 0),
+              MAX_TIMEOUT_MS
+            )
+          );
+
+    return () => {
+      removeHandler();
+      clearTimeout(timeout);
+    };
+  }, [expiresAt, queryClient, userId]);
 
   const value: AuthContextValue = {
     user,
-    isAuthenticated,
-    isLoading,
+    isAuthenticated: user !== null,
+    // True until the session snapshot has loaded
+    isLoading: isPending,
+    expiresAt: expiresAt === null ? null : new Date(expiresAt),
+    sessionExpired,
+    dismissSessionExpired: () => setSessionExpired(false),
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,93 @@
+import { createMemoryStore, type RateLimitStore } from "./store";
+
+/**
+ * Fixed-window rate limiting with lockouts
+ * Works in Server Actions, Route Handlers and proxy.ts
+ */
+
+export interface RateLimitOptions {
+  /** Prefix of the store keys, e.g. "sign-in:email" */
+  name: string;
+  /** Hits allowed per window */
+  limit: number;
+  windowMs: number;
+  /** How long a key stays locked once over the limit (default: windowMs) */
+  lockoutMs?: number;
+  store?: RateLimitStore;
+}
+
+export type RateLimitResult =
+  | { success: true }
+  | { success: false; retryAfter: number };
+
+// Kept on globalThis so the counters survive dev server reloads and are
+// shared by every module instance of the Server Actions and Route Handlers
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore?: RateLimitStore;
+};
+
+globalForRateLimit.rateLimitStore ??= createMemoryStore();
+
+/** The in-memory store used when a limiter has no store */
+export const defaultStore = globalForRateLimit.rateLimitStore;
+
+export function createRateLimiter({
+  name,
+  limit,
+  windowMs,
+  lockoutMs = windowMs,
+  store = defaultStore,
+}: RateLimitOptions) {
+  const toKey = (key: string) => `rate-limit:${name}:${key.toLowerCase()}`;
+
+  return {
+    /**
+     * Count a hit for a key
+     * @returns Whether it is allowed, or the seconds until it is
+     */
+    async consume(key: string): Promise<RateLimitResult> {
+      const storeKey = toKey(key);
+      let { count, resetAt } = await store.increment(storeKey, windowMs);
+      if (count === limit + 1) {
+        // Just went over the limit, lock the key out
+        await store.expire(storeKey, lockoutMs);
+        resetAt = Date.now() + lockoutMs;
+      }
+      if (count > limit) {
+        return {
+          success: false,
+          retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+        };
+      }
+      return { success: true };
+    },
+
+    /** Clear the hits of a key */
+    reset(key: string) {
+      return store.reset(toKey(key));
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/**
+ * The client IP of a request, from the X-Forwarded-For entry added by
+ * the outermost trusted proxy, or X-Real-IP
+ * Clients can send X-Forwarded-For themselves, and proxies append to it,
+ * so only the last `trustedHops` entries are trustworthy.
+ * @param trustedHops - Proxies in front of the app (default: 1)
+ * @returns The IP, or null when neither header is set
+ */
+export const getClientIp = (
+  headers: Headers,
+  trustedHops = 1
+): string | null => {
+  const forwardedFor =
+    headers
+      .get("x-forwarded-for")
+      ?.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean) ?? [];
+  return forwardedFor.at(-trustedHops) || headers.get("x-real-ip") || null;
+};
@@ -0,0 +1,118 @@
+/**
+ * Rate limit stores
+ * Counters live in memory by default. Use the Redis store when running
+ * several Next.js instances, so they share the same counters.
+ */
+
+export interface RateLimitEntry {
+  /** Hits in the current window */
+  count: number;
+  /** When the window ends, in milliseconds since epoch */
+  resetAt: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Add a hit to a key, starting a window of `windowMs` if it has none
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Restart the window of a key with a new length, used for lockouts */
+  expire(key: string, ms: number): Promise<void>;
+  /** Forget a key, e.g. after a successful sign in */
+  reset(key: string): Promise<void>;
+}
+
+// Expired entries are dropped at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * In-memory store for a single Next.js instance
+ * Counters are lost on restart
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    lastSweep = now;
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now);
+      const current = entries.get(key);
+      const entry =
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs };
+      entries.set(key, entry);
+      return Promise.resolve(entry);
+    },
+
+    expire(key, ms) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.resetAt = Date.now() + ms;
+      }
+      return Promise.resolve();
+    },
+
+    reset(key) {
+      entries.delete(key);
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * The Redis commands the Redis store needs
+ * Matches clients such as ioredis, node-redis (v4+) and @upstash/redis
+ */
+export interface RedisClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  pttl(key: string): Promise<number>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Redis store shared by every Next.js instance
+ *
+ * @example
+ * import Redis from "ioredis";
+ * const store = createRedisStore(new Redis(process.env.REDIS_URL));
+ */
+export function createRedisStore(redis: RedisClient): RateLimitStore {
+  return {
+    async increment(key, windowMs) {
+      const count = await redis.incr(key);
+      if (count === 1) {
+        await redis.pexpire(key, windowMs);
+      }
+      let ttl = await redis.pttl(key);
+      // The expiry was lost (e.g. crash between INCR and PEXPIRE)
+      if (ttl < 0) {
+        await redis.pexpire(key, windowMs);
+        ttl = windowMs;
+      }
+      return { count, resetAt: Date.now() + ttl };
+    },
+
+    async expire(key, ms) {
+      await redis.pexpire(key, ms);
+    },
+
+    async reset(key) {
+      await redis.del(key);
+    },
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Storage backends behind a common interface
+ * Features use `storageDriver` from ./storage-driver.ts instead of
+ * hard-coding R2 or PocketBase; STORAGE_DRIVER picks the backend, so
+ * dev and tests can run on disk without credentials.
+ */
+
+export type StorageDriverName = "pocketbase" | "s3" | "local";
+
+/** Metadata of a stored object */
+export interface StorageObject {
+  key: string;
+  size: number;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: Date | null;
+}
+
+export type StorageBody = Blob | Uint8Array | ReadableStream<Uint8Array>;
+
+/** Byte range, `end` inclusive like HTTP Range headers */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageStream {
+  object: StorageObject;
+  body: ReadableStream<Uint8Array>;
+  /** The served range, null for the whole object */
+  range: ByteRange | null;
+}
+
+export interface ListOptions {
+  prefix?: string;
+  /** `cursor` of the previous page */
+  cursor?: string | null;
+  /** Objects per page (default: 1000) */
+  limit?: number;
+}
+
+export interface ListPage {
+  objects: StorageObject[];
+  /** Cursor of the next page, null on the last page */
+  cursor: string | null;
+}
+
+export interface SignedUrlOptions {
+  /** GET to download (default), PUT to upload from the browser */
+  method?: "GET" | "PUT";
+  /** Expiration in seconds (default: 3600) */
+  expiresIn?: number;
+  /** Type the object is served with, or must be uploaded with for PUT */
+  contentType?: string;
+  contentDisposition?: string;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  /** Store an object, replacing any object with the same key */
+  put(key: string, body: StorageBody, contentType?: string): Promise<void>;
+  /** Read a whole object into memory, null when it doesn't exist */
+  get(key: string): Promise<{ object: StorageObject; body: Uint8Array } | null>;
+  /** Stream an object or a range of it, null when it doesn't exist */
+  stream(key: string, range?: ByteRange): Promise<StorageStream | null>;
+  /** Delete an object, missing objects are ignored */
+  delete(key: string): Promise<void>;
+  /** List objects by key order, one page at a time */
+  list(options?: ListOptions): Promise<ListPage>;
+  /** Absolute URL giving temporary access to an object */
+  signedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  /** Metadata of an object, null when it doesn't exist */
+  head(key: string): Promise<StorageObject | null>;
+}
+
+export const DEFAULT_LIST_LIMIT = 1000;
+
+export const DEFAULT_URL_EXPIRES_IN = 3600;
+
+/**
+ * Read a stream into memory, for `get`
+ */
+export async function readStream(stream: ReadableStream<Uint8Array>) {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
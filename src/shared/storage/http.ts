@@ -0,0 +1,87 @@
+import type { ByteRange, StorageStream } from "./driver";
+
+/**
+ * HTTP helpers for routes serving stored objects
+ */
+
+const RANGE_HEADER = /^bytes=(\d*)-(\d*)$/;
+
+/**
+ * Parse a single-range Range header against the object size
+ * @returns The range, null to serve the whole object, or "unsatisfiable"
+ * for a 416 response
+ */
+export function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | null | "unsatisfiable" {
+  // Multiple ranges (multipart/byteranges) aren't supported
+  const match = header ? RANGE_HEADER.exec(header) : null;
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  const [, start, end] = match;
+  const range =
+    start === ""
+      ? { start: Math.max(0, size - Number(end)), end: size - 1 }
+      : {
+          start: Number(start),
+          end: Math.min(end === "" ? size - 1 : Number(end), size - 1),
+        };
+  return range.start > range.end || range.start >= size
+    ? "unsatisfiable"
+    : range;
+}
+
+/**
+ * Content-Disposition with an ASCII fallback and the UTF-8 name (RFC 6266)
+ */
+export function contentDisposition(
+  type: "inline" | "attachment",
+  filename: string
+) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Response streaming a stored object, 206 for ranges
+ */
+export function objectResponse(
+  { object, body, range }: StorageStream,
+  headers: { contentType?: string | null; contentDisposition?: string | null }
+) {
+  const responseHeaders = new Headers({
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-cache",
+    "Content-Type":
+      headers.contentType ?? object.contentType ?? "application/octet-stream",
+    "Content-Length": String(range ? range.end - range.start + 1 : object.size),
+  });
+  if (headers.contentDisposition) {
+    responseHeaders.set("Content-Disposition", headers.contentDisposition);
+  }
+  if (object.etag) {
+    responseHeaders.set("ETag", object.etag);
+  }
+  if (range) {
+    responseHeaders.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${object.size}`
+    );
+  }
+  return new Response(body, {
+    status: range ? 206 : 200,
+    headers: responseHeaders,
+  });
+}
+
+/**
+ * 416 response for a range outside the object
+ */
+export const rangeNotSatisfiable = (size: number) =>
+  new Response(null, {
+    status: 416,
+    headers: { "Content-Range": `bytes */${size}` },
+  });
@@ -0,0 +1,188 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { serverConfig } from "@/shared/config/server";
+import {
+  DEFAULT_LIST_LIMIT,
+  readStream,
+  type StorageBody,
+  type StorageDriver,
+  type StorageObject,
+} from "./driver";
+import { createSignedUrl } from "./signed-url";
+
+/**
+ * Local filesystem driver, for dev and tests without credentials
+ * Objects live in <STORAGE_LOCAL_DIR>/objects/<key>, their content type
+ * in <STORAGE_LOCAL_DIR>/meta/<key>.json. Signed URLs point to the
+ * /api/storage route, see ./signed-url.ts
+ */
+
+const root = path.resolve(serverConfig.storage.localDir);
+const objectsDir = path.join(root, "objects");
+const metaDir = path.join(root, "meta");
+const tempDir = path.join(root, "tmp");
+
+interface LocalMetadata {
+  contentType: string | null;
+}
+
+/**
+ * File paths of a key, rejecting keys that would escape the storage dir
+ */
+function resolveKey(key: string) {
+  const segments = key.split("/");
+  if (segments.some((s) => s === "" || s === "." || s === "..")) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return {
+    file: path.join(objectsDir, ...segments),
+    meta: `${path.join(metaDir, ...segments)}.json`,
+  };
+}
+
+const isMissing = (err: unknown) =>
+  (err as NodeJS.ErrnoException | null)?.code === "ENOENT";
+
+async function readMetadata(file: string): Promise<LocalMetadata> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as LocalMetadata;
+  } catch {
+    return { contentType: null };
+  }
+}
+
+async function writeBody(file: string, body: StorageBody) {
+  if (body instanceof Uint8Array) {
+    await writeFile(file, body);
+    return;
+  }
+  const stream = body instanceof Blob ? body.stream() : body;
+  await pipeline(
+    Readable.fromWeb(stream as unknown as NodeReadableStream<Uint8Array>),
+    createWriteStream(file)
+  );
+}
+
+export const localDriver: StorageDriver = {
+  name: "local",
+
+  async put(key, body, contentType) {
+    const { file, meta } = resolveKey(key);
+    // Written aside first, so readers never see a partial file
+    const temp = path.join(tempDir, randomUUID());
+    await Promise.all([
+      mkdir(tempDir, { recursive: true }),
+      mkdir(path.dirname(file), { recursive: true }),
+      mkdir(path.dirname(meta), { recursive: true }),
+    ]);
+    try {
+      await writeBody(temp, body);
+      await rename(temp, file);
+    } finally {
+      await rm(temp, { force: true });
+    }
+    const metadata: LocalMetadata = { contentType: contentType ?? null };
+    await writeFile(meta, JSON.stringify(metadata));
+  },
+
+  async get(key) {
+    const stored = await localDriver.stream(key);
+    return stored
+      ? { object: stored.object, body: await readStream(stored.body) }
+      : null;
+  },
+
+  async stream(key, range) {
+    const object = await localDriver.head(key);
+    if (!object) {
+      return null;
+    }
+    const { file } = resolveKey(key);
+    const stream = createReadStream(file, range);
+    return {
+      object,
+      body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+      range: range ?? null,
+    };
+  },
+
+  async delete(key) {
+    const { file, meta } = resolveKey(key);
+    await Promise.all([rm(file, { force: true }), rm(meta, { force: true })]);
+  },
+
+  async list({ prefix = "", cursor, limit = DEFAULT_LIST_LIMIT } = {}) {
+    let entries: string[];
+    try {
+      entries = await readdir(objectsDir, { recursive: true });
+    } catch (err) {
+      if (isMissing(err)) {
+        return { objects: [], cursor: null };
+      }
+      throw err;
+    }
+
+    const keys = entries
+      .map((entry) => entry.split(path.sep).join("/"))
+      .filter((key) => key.startsWith(prefix) && (!cursor || key > cursor))
+      .sort();
+
+    const objects: StorageObject[] = [];
+    let index = 0;
+    for (; index < keys.length && objects.length < limit; index++) {
+      // Directories have no metadata
+      const object = await localDriver.head(keys[index]);
+      if (object) {
+        objects.push(object);
+      }
+    }
+    const hasMore = index < keys.length;
+    return {
+      objects,
+      cursor: hasMore ? (objects.at(-1)?.key ?? null) : null,
+    };
+  },
+
+  signedUrl(key, options) {
+    resolveKey(key);
+    return Promise.resolve(createSignedUrl(key, options));
+  },
+
+  async head(key) {
+    const { file, meta } = resolveKey(key);
+    try {
+      const stats = await stat(file);
+      if (!stats.isFile()) {
+        return null;
+      }
+      const { contentType } = await readMetadata(meta);
+      return {
+        key,
+        size: stats.size,
+        contentType,
+        etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+        lastModified: stats.mtime,
+      };
+    } catch (err) {
+      if (isMissing(err)) {
+        return null;
+      }
+      throw err;
+    }
+  },
+};
@@ -0,0 +1,189 @@
+"use client";
+
+import type { FilesResponse } from "@/shared/db/types";
+import type { MultipartUploadSession, UploadedPart } from "./multipart";
+
+/**
+ * Browser side of multipart uploads
+ * Parts go straight to R2 through presigned URLs, the app only starts,
+ * resumes and completes the upload. The bucket CORS rules must allow PUT
+ * and expose the ETag header.
+ */
+
+const ENDPOINT = "/api/uploads/multipart";
+
+// Parts uploaded at the same time
+const DEFAULT_CONCURRENCY = 4;
+
+export interface MultipartUploadOptions {
+  /** Called after each part with the uploaded and total bytes */
+  onProgress?: (uploaded: number, total: number) => void;
+  /** Stops uploading, the upload can be resumed by calling again */
+  signal?: AbortSignal;
+  concurrency?: number;
+}
+
+interface StoredUpload {
+  key: string;
+  uploadId: string;
+}
+
+// The same file picked again resumes where it stopped
+const storageKey = (file: File) =>
+  `multipart-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+function readStoredUpload(file: File): StoredUpload | null {
+  try {
+    const value = localStorage.getItem(storageKey(file));
+    return value ? (JSON.parse(value) as StoredUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(input, { cache: "no-store", ...init });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error ?? "Upload failed");
+  }
+  return body as T;
+}
+
+const fileInfo = (file: File) => ({
+  name: file.name,
+  type: file.type,
+  size: file.size,
+});
+
+function startUpload(file: File, signal?: AbortSignal) {
+  return request<MultipartUploadSession>(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(fileInfo(file)),
+    signal,
+  });
+}
+
+/**
+ * Resume the stored upload of this file, or start a new one
+ */
+async function getSession(file: File, signal?: AbortSignal) {
+  const stored = readStoredUpload(file);
+  if (stored) {
+    const query = new URLSearchParams({
+      key: stored.key,
+      size: String(file.size),
+    });
+    try {
+      return await request<MultipartUploadSession>(
+        `${ENDPOINT}/${stored.uploadId}?${query}`,
+        { signal }
+      );
+    } catch {
+      // Completed, aborted or cleaned up in the meantime
+      localStorage.removeItem(storageKey(file));
+    }
+  }
+
+  const session = await startUpload(file, signal);
+  const upload: StoredUpload = { key: session.key, uploadId: session.uploadId };
+  localStorage.setItem(storageKey(file), JSON.stringify(upload));
+  return session;
+}
+
+async function uploadPart(
+  file: File,
+  session: MultipartUploadSession,
+  partNumber: number,
+  url: string,
+  signal?: AbortSignal
+): Promise<UploadedPart> {
+  const start = (partNumber - 1) * session.partSize;
+  const res = await fetch(url, {
+    method: "PUT",
+    body: file.slice(start, start + session.partSize),
+    signal,
+  });
+  if (!res.ok) {
+    throw new Error(`Part ${partNumber} failed with status ${res.status}`);
+  }
+  const etag = res.headers.get("ETag");
+  if (!etag) {
+    throw new Error("Missing ETag, expose it in the bucket CORS rules");
+  }
+  return { partNumber, etag };
+}
+
+const partBytes = (file: File, partSize: number, partNumber: number) =>
+  Math.min(partSize, file.size - (partNumber - 1) * partSize);
+
+/**
+ * Upload a file in parts, resuming a previous attempt of the same file
+ * Accepts the file types of `uploadInfoSchema`, up to 5 GB
+ * @returns The object key and `files` record of the uploaded file
+ * @example
+ * const { key, file: record } = await uploadMultipart(file, {
+ *   onProgress: (uploaded, total) => setProgress(uploaded / total),
+ * });
+ */
+export async function uploadMultipart(
+  file: File,
+  {
+    onProgress,
+    signal,
+    concurrency = DEFAULT_CONCURRENCY,
+  }: MultipartUploadOptions = {}
+) {
+  const session = await getSession(file, signal);
+  const parts = [...session.uploadedParts];
+  let uploaded = parts.reduce(
+    (total, part) => total + partBytes(file, session.partSize, part.partNumber),
+    0
+  );
+  onProgress?.(uploaded, file.size);
+
+  const queue = [...session.partUrls];
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const part = await uploadPart(
+        file,
+        session,
+        next.partNumber,
+        next.url,
+        signal
+      );
+      parts.push(part);
+      uploaded += partBytes(file, session.partSize, part.partNumber);
+      onProgress?.(uploaded, file.size);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  const result = await request<{ key: string; file: FilesResponse }>(
+    `${ENDPOINT}/${session.uploadId}/complete`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: session.key, parts, file: fileInfo(file) }),
+      signal,
+    }
+  );
+  localStorage.removeItem(storageKey(file));
+  return result;
+}
+
+/**
+ * Abort the stored upload of this file and delete its parts
+ */
+export async function cancelMultipartUpload(file: File) {
+  const stored = readStoredUpload(file);
+  if (!stored) {
+    return;
+  }
+  localStorage.removeItem(storageKey(file));
+  const query = new URLSearchParams({ key: stored.key });
+  await request(`${ENDPOINT}/${stored.uploadId}?${query}`, {
+    method: "DELETE",
+  });
+}
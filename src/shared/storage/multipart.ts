@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+/**
+ * Multipart upload limits and payloads
+ * Shared by r2-client.ts, the /api/uploads/multipart routes and the
+ * browser uploader in multipart-upload.ts
+ */
+
+const MiB = 1024 * 1024;
+
+/** S3 minimum size of every part but the last */
+export const MIN_PART_SIZE = 5 * MiB;
+
+export const DEFAULT_PART_SIZE = 8 * MiB;
+
+/** S3 limits of a single upload */
+export const MAX_PARTS = 10_000;
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * MiB;
+
+/**
+ * Part size of a file, growing past the default for files that would
+ * need more than MAX_PARTS parts
+ */
+export const getPartSize = (size: number) =>
+  Math.max(DEFAULT_PART_SIZE, Math.ceil(size / MAX_PARTS));
+
+export const getPartCount = (size: number) =>
+  Math.max(1, Math.ceil(size / getPartSize(size)));
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface PartUrl {
+  partNumber: number;
+  /** Presigned PUT URL, the response ETag header identifies the part */
+  url: string;
+}
+
+/** A started or resumed multipart upload */
+export interface MultipartUploadSession {
+  key: string;
+  uploadId: string;
+  partSize: number;
+  /** Parts already stored, when resuming */
+  uploadedParts: UploadedPart[];
+  /** URLs of the parts still to upload */
+  partUrls: PartUrl[];
+}
+
+export const resumeMultipartSchema = z.object({
+  key: z.string().min(1),
+  size: z.coerce.number().int().positive().max(MAX_UPLOAD_SIZE),
+});
+
+export const completeMultipartSchema = z.object({
+  key: z.string().min(1),
+  parts: z
+    .array(
+      z.object({
+        partNumber: z.number().int().min(1).max(MAX_PARTS),
+        etag: z.string().min(1),
+      })
+    )
+    .min(1),
+});
@@ -0,0 +1,145 @@
+import "server-only";
+
+import { ClientResponseError } from "pocketbase";
+import { pbAdmin } from "@/shared/db/admin";
+import type { StorageObjectsResponse } from "@/shared/db/types";
+import {
+  DEFAULT_LIST_LIMIT,
+  readStream,
+  type StorageBody,
+  type StorageDriver,
+  type StorageObject,
+} from "./driver";
+import { createSignedUrl } from "./signed-url";
+
+/**
+ * PocketBase driver, storing each object as a record of the
+ * `storage_objects` collection with a protected file field
+ * Only pbAdmin reads the files; signed URLs point to the /api/storage
+ * route, see ./signed-url.ts
+ */
+
+const storageObjects = () => pbAdmin.collection("storage_objects");
+
+const toObject = (record: StorageObjectsResponse): StorageObject => ({
+  key: record.key,
+  size: record.size,
+  contentType: record.contentType || null,
+  etag: `"${record.id}-${Date.parse(record.updated).toString(16)}"`,
+  lastModified: new Date(record.updated),
+});
+
+async function findRecord(key: string) {
+  try {
+    return await storageObjects().getFirstListItem(
+      pbAdmin.filter("key = {:key}", { key })
+    );
+  } catch (err) {
+    if (err instanceof ClientResponseError && err.status === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+// The SDK uploads Blobs only, streams are read into memory first
+async function toBlob(body: StorageBody, contentType?: string) {
+  if (body instanceof Blob) {
+    return body;
+  }
+  const bytes = body instanceof Uint8Array ? body : await readStream(body);
+  return new Blob([bytes as Uint8Array<ArrayBuffer>], { type: contentType });
+}
+
+export const pocketbaseDriver: StorageDriver = {
+  name: "pocketbase",
+
+  async put(key, body, contentType) {
+    const blob = await toBlob(body, contentType);
+    const data = {
+      key,
+      file: new File([blob], key.split("/").at(-1) ?? key, {
+        type: contentType ?? blob.type,
+      }),
+      size: blob.size,
+      contentType: contentType ?? "",
+    };
+    const existing = await findRecord(key);
+    if (existing) {
+      await storageObjects().update(existing.id, data);
+      return;
+    }
+    await storageObjects().create(data);
+  },
+
+  async get(key) {
+    const stored = await pocketbaseDriver.stream(key);
+    return stored
+      ? { object: stored.object, body: await readStream(stored.body) }
+      : null;
+  },
+
+  async stream(key, range) {
+    const record = await findRecord(key);
+    if (!record) {
+      return null;
+    }
+    const token = await pbAdmin.files.getToken();
+    const res = await fetch(
+      pbAdmin.files.getURL(record, record.file, { token }),
+      {
+        cache: "no-store",
+        headers: range ? { Range: `bytes=${range.start}-${range.end}` } : {},
+      }
+    );
+    if (res.status === 404) {
+      return null;
+    }
+    if (!(res.ok && res.body)) {
+      throw new Error(`Failed to read ${key} from PocketBase (${res.status})`);
+    }
+    return {
+      object: toObject(record),
+      body: res.body,
+      range: res.status === 206 ? (range ?? null) : null,
+    };
+  },
+
+  async delete(key) {
+    const record = await findRecord(key);
+    if (record) {
+      await storageObjects().delete(record.id);
+    }
+  },
+
+  async list({ prefix, cursor, limit = DEFAULT_LIST_LIMIT } = {}) {
+    const filters = [
+      // `~` only matches a prefix with an explicit trailing wildcard
+      prefix ? pbAdmin.filter("key ~ {:prefix}", { prefix: `${prefix}%` }) : "",
+      cursor ? pbAdmin.filter("key > {:cursor}", { cursor }) : "",
+    ];
+    const page = await storageObjects().getList(1, limit, {
+      filter: filters.filter(Boolean).join(" && "),
+      sort: "key",
+      skipTotal: true,
+    });
+    // LIKE treats % and _ in the prefix as wildcards
+    const objects = page.items
+      .filter((record) => !prefix || record.key.startsWith(prefix))
+      .map(toObject);
+    return {
+      objects,
+      cursor:
+        page.items.length === limit ? (page.items.at(-1)?.key ?? null) : null,
+    };
+  },
+
+  signedUrl(key, options) {
+    return Promise.resolve(createSignedUrl(key, options));
+  },
+
+  async head(key) {
+    const record = await findRecord(key);
+    return record ? toObject(record) : null;
+  },
+};
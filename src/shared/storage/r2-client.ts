@@ -1,26 +1,354 @@
 import {
+  type _Object,
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
   ListObjectsV2Command,
+  ListPartsCommand,
   PutObjectCommand,
   S3Client,
+  S3ServiceException,
+  UploadPartCommand,
+  UploadPartCopyCommand,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { serverConfig } from "@/shared/config/server";
+import {
+  DEFAULT_PART_SIZE,
+  getPartCount,
+  getPartSize,
+  type MultipartUploadSession,
+  type UploadedPart,
+} from "./multipart";
 
 /**
  * Cloudflare R2 / S3-compatible storage client
  * For direct file storage without PocketBase
  */
-const r2Client = new S3Client({
-  region: "auto",
-  endpoint: process.env.R2_ENDPOINT,
-  credentials: {
-    accessKeyId: process.env.R2_ACCESS_KEY_ID ?? "",
-    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY ?? "",
+let r2Client: S3Client | undefined;
+
+/**
+ * The R2 settings from the validated server config
+ * @throws When the R2_* variables aren't set
+ */
+function getR2Config() {
+  if (!serverConfig.r2) {
+    throw new Error(
+      "R2 is not configured, set the R2_* variables (see .env.local.example)"
+    );
+  }
+  return serverConfig.r2;
+}
+
+function getClient() {
+  if (!r2Client) {
+    const { endpoint, accessKeyId, secretAccessKey, region, forcePathStyle } =
+      getR2Config();
+    r2Client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials: { accessKeyId, secretAccessKey },
+    });
+  }
+  return r2Client;
+}
+
+/**
+ * Whether R2 rejected a request because the object doesn't exist
+ */
+export const isNotFoundError = (err: unknown) =>
+  err instanceof S3ServiceException && err.$metadata.httpStatusCode === 404;
+
+// Multipart uploads older than this are considered abandoned
+const ABANDONED_UPLOAD_AGE_MS = 24 * 60 * 60 * 1000;
+
+// CopyObject copies up to 5 GiB, larger objects are copied in 1 GiB parts
+const MAX_COPY_SIZE = 5 * 1024 ** 3;
+const COPY_PART_SIZE = 1024 ** 3;
+
+// DeleteObjects takes up to 1000 keys per request
+const MAX_DELETE_KEYS = 1000;
+
+/** Object metadata from `r2.head` */
+export interface R2ObjectInfo {
+  key: string;
+  size: number;
+  etag: string | null;
+  contentType: string | null;
+  lastModified: Date | null;
+  /** User-defined x-amz-meta-* metadata */
+  metadata: Record<string, string>;
+}
+
+export interface R2ListOptions {
+  prefix?: string;
+  /** `cursor` of the previous page */
+  cursor?: string | null;
+  /** Objects per page, at most 1000 (default: 1000) */
+  maxKeys?: number;
+  /** Group keys containing it after the prefix into `folders`, e.g. "/" */
+  delimiter?: string;
+}
+
+export interface R2ListPage {
+  objects: _Object[];
+  /** Common prefixes when listing with a delimiter, e.g. "photos/2026/" */
+  folders: string[];
+  /** Cursor of the next page, null on the last page */
+  cursor: string | null;
+}
+
+export interface R2DeleteResult {
+  deleted: string[];
+  errors: { key: string; message: string }[];
+}
+
+// CopySource is "<bucket>/<key>" with the key URL-encoded
+const toCopySource = (key: string) =>
+  `${getR2Config().bucket}/${key.split("/").map(encodeURIComponent).join("/")}`;
+
+/**
+ * Multipart upload steps, for files too large for a single PUT
+ * Browsers upload the parts to presigned URLs, see multipart-upload.ts
+ */
+const multipart = {
+  /**
+   * Start a multipart upload
+   * @returns The upload ID the other steps refer to
+   */
+  async create(key: string, contentType?: string) {
+    const command = new CreateMultipartUploadCommand({
+      Bucket: getR2Config().bucket,
+      Key: key,
+      ContentType: contentType,
+    });
+
+    const { UploadId } = await getClient().send(command);
+    if (!UploadId) {
+      throw new Error("R2 did not return an upload ID");
+    }
+    return UploadId;
   },
-});
 
-const bucket = process.env.R2_BUCKET_NAME ?? "";
+  /**
+   * Upload one part from the server
+   * @returns The ETag to pass to `complete`
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Uint8Array
+  ) {
+    const command = new UploadPartCommand({
+      Bucket: getR2Config().bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    });
+
+    const { ETag } = await getClient().send(command);
+    if (!ETag) {
+      throw new Error(`R2 did not return an ETag for part ${partNumber}`);
+    }
+    return ETag;
+  },
+
+  /**
+   * Get presigned URLs for uploading parts (client-side upload)
+   * @param expiresIn - URL expiration in seconds (default: 3600)
+   */
+  getPartUrls(
+    key: string,
+    uploadId: string,
+    partNumbers: number[],
+    expiresIn = 3600
+  ) {
+    const bucket = getR2Config().bucket;
+    return Promise.all(
+      partNumbers.map(async (partNumber) => {
+        const command = new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+        });
+        const url = await getSignedUrl(getClient(), command, { expiresIn });
+        return { partNumber, url };
+      })
+    );
+  },
+
+  /**
+   * List the parts already stored, following pagination
+   */
+  async listParts(key: string, uploadId: string) {
+    const parts: UploadedPart[] = [];
+    let marker: string | undefined;
+    do {
+      const command = new ListPartsCommand({
+        Bucket: getR2Config().bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: marker,
+      });
+      const res = await getClient().send(command);
+      for (const part of res.Parts ?? []) {
+        if (part.PartNumber && part.ETag) {
+          parts.push({ partNumber: part.PartNumber, etag: part.ETag });
+        }
+      }
+      marker = res.IsTruncated ? res.NextPartNumberMarker : undefined;
+    } while (marker);
+    return parts;
+  },
+
+  /**
+   * Get the uploaded parts and URLs of the missing ones, to start or
+   * resume uploading a file of the given size
+   */
+  async getSession(
+    key: string,
+    uploadId: string,
+    size: number
+  ): Promise<MultipartUploadSession> {
+    const uploadedParts = await multipart.listParts(key, uploadId);
+    const uploaded = new Set(uploadedParts.map((part) => part.partNumber));
+    const missing = Array.from(
+      { length: getPartCount(size) },
+      (_, index) => index + 1
+    ).filter((partNumber) => !uploaded.has(partNumber));
+
+    return {
+      key,
+      uploadId,
+      partSize: getPartSize(size),
+      uploadedParts,
+      partUrls: await multipart.getPartUrls(key, uploadId, missing),
+    };
+  },
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  complete(key: string, uploadId: string, parts: UploadedPart[]) {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: getR2Config().bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    });
+
+    return getClient().send(command);
+  },
+
+  /**
+   * Abort an upload and delete its stored parts
+   */
+  abort(key: string, uploadId: string) {
+    const command = new AbortMultipartUploadCommand({
+      Bucket: getR2Config().bucket,
+      Key: key,
+      UploadId: uploadId,
+    });
+
+    return getClient().send(command);
+  },
+
+  /**
+   * List unfinished uploads, following pagination
+   * @param prefix - The folder prefix (optional)
+   */
+  async listUploads(prefix?: string) {
+    const uploads: { key: string; uploadId: string; initiated?: Date }[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+    do {
+      const command = new ListMultipartUploadsCommand({
+        Bucket: getR2Config().bucket,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      });
+      const res = await getClient().send(command);
+      for (const upload of res.Uploads ?? []) {
+        if (upload.Key && upload.UploadId) {
+          uploads.push({
+            key: upload.Key,
+            uploadId: upload.UploadId,
+            initiated: upload.Initiated,
+          });
+        }
+      }
+      keyMarker = res.IsTruncated ? res.NextKeyMarker : undefined;
+      uploadIdMarker = res.IsTruncated ? res.NextUploadIdMarker : undefined;
+    } while (keyMarker);
+    return uploads;
+  },
+
+  /**
+   * Copy an object larger than CopyObject allows, part by part
+   */
+  async copy(sourceKey: string, destinationKey: string, source: R2ObjectInfo) {
+    const uploadId = await multipart.create(
+      destinationKey,
+      source.contentType ?? undefined
+    );
+    const parts: UploadedPart[] = [];
+    try {
+      for (let start = 0; start < source.size; start += COPY_PART_SIZE) {
+        const end = Math.min(start + COPY_PART_SIZE, source.size) - 1;
+        const partNumber = parts.length + 1;
+        const command = new UploadPartCopyCommand({
+          Bucket: getR2Config().bucket,
+          Key: destinationKey,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          CopySource: toCopySource(sourceKey),
+          CopySourceRange: `bytes=${start}-${end}`,
+        });
+        const { CopyPartResult } = await getClient().send(command);
+        if (!CopyPartResult?.ETag) {
+          throw new Error(`R2 did not return an ETag for part ${partNumber}`);
+        }
+        parts.push({ partNumber, etag: CopyPartResult.ETag });
+      }
+      return await multipart.complete(destinationKey, uploadId, parts);
+    } catch (err) {
+      await multipart.abort(destinationKey, uploadId).catch(() => undefined);
+      throw err;
+    }
+  },
+
+  /**
+   * Abort uploads started before the cutoff, their parts are billed
+   * as storage until then
+   * @param olderThanMs - Minimum age in milliseconds (default: 24 hours)
+   * @returns The number of aborted uploads
+   */
+  async cleanup(olderThanMs = ABANDONED_UPLOAD_AGE_MS, prefix?: string) {
+    const cutoff = Date.now() - olderThanMs;
+    const abandoned = (await multipart.listUploads(prefix)).filter(
+      (upload) => upload.initiated && upload.initiated.getTime() < cutoff
+    );
+    for (const upload of abandoned) {
+      await multipart.abort(upload.key, upload.uploadId);
+    }
+    return abandoned.length;
+  },
+};
 
 export const r2 = {
   /**
@@ -31,15 +359,68 @@ export const r2 = {
    */
   upload(key: string, file: Buffer | Blob | Uint8Array, contentType?: string) {
     const command = new PutObjectCommand({
-      Bucket: bucket,
+      Bucket: getR2Config().bucket,
       Key: key,
       Body: file,
       ContentType: contentType,
     });
 
-    return r2Client.send(command);
+    return getClient().send(command);
   },
 
+  /**
+   * Upload a stream of unknown length with a multipart upload
+   * Holds a single part in memory, so large files never have to fit in a Buffer
+   * @param key - The file path/key
+   * @param stream - e.g. `request.body` or `file.stream()`
+   * @param contentType - MIME type
+   * @param partSize - Bytes per part, at least 5 MiB (default: 8 MiB)
+   */
+  async uploadStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    contentType?: string,
+    partSize = DEFAULT_PART_SIZE
+  ) {
+    const uploadId = await multipart.create(key, contentType);
+    const reader = stream.getReader();
+    const parts: UploadedPart[] = [];
+    let chunks: Uint8Array[] = [];
+    let buffered = 0;
+
+    const flush = async () => {
+      const partNumber = parts.length + 1;
+      const body = Buffer.concat(chunks, buffered);
+      chunks = [];
+      buffered = 0;
+      const etag = await multipart.uploadPart(key, uploadId, partNumber, body);
+      parts.push({ partNumber, etag });
+    };
+
+    try {
+      let result = await reader.read();
+      while (!result.done) {
+        chunks.push(result.value);
+        buffered += result.value.byteLength;
+        if (buffered >= partSize) {
+          await flush();
+        }
+        result = await reader.read();
+      }
+      // An empty stream still needs one (empty) part
+      if (buffered > 0 || parts.length === 0) {
+        await flush();
+      }
+      return await multipart.complete(key, uploadId, parts);
+    } catch (err) {
+      await reader.cancel().catch(() => undefined);
+      await multipart.abort(key, uploadId).catch(() => undefined);
+      throw err;
+    }
+  },
+
+  multipart,
+
   /**
    * Get a presigned URL for uploading (client-side upload)
    * @param key - The file path/key
@@ -48,26 +429,79 @@ export const r2 = {
    */
   getUploadUrl(key: string, contentType?: string, expiresIn = 300) {
     const command = new PutObjectCommand({
-      Bucket: bucket,
+      Bucket: getR2Config().bucket,
       Key: key,
       ContentType: contentType,
     });
 
-    return getSignedUrl(r2Client, command, { expiresIn });
+    return getSignedUrl(getClient(), command, { expiresIn });
   },
 
   /**
    * Get a presigned URL for downloading
    * @param key - The file path/key
    * @param expiresIn - URL expiration in seconds (default: 3600)
+   * @param headers - Content-Disposition / Content-Type R2 responds with
    */
-  getDownloadUrl(key: string, expiresIn = 3600) {
+  getDownloadUrl(
+    key: string,
+    expiresIn = 3600,
+    headers: { contentDisposition?: string; contentType?: string } = {}
+  ) {
     const command = new GetObjectCommand({
-      Bucket: bucket,
+      Bucket: getR2Config().bucket,
+      Key: key,
+      ResponseContentDisposition: headers.contentDisposition,
+      ResponseContentType: headers.contentType,
+    });
+
+    return getSignedUrl(getClient(), command, { expiresIn });
+  },
+
+  /**
+   * Download a file, or part of it
+   * @param key - The file path/key
+   * @param range - HTTP Range header value, e.g. "bytes=0-1023"
+   * @returns The object, stream it with `Body.transformToWebStream()`
+   */
+  download(key: string, range?: string) {
+    const command = new GetObjectCommand({
+      Bucket: getR2Config().bucket,
+      Key: key,
+      Range: range,
+    });
+
+    return getClient().send(command);
+  },
+
+  /**
+   * Get a file's metadata without downloading it
+   * @param key - The file path/key
+   * @returns Size, ETag, content type and metadata, or null when the
+   * file doesn't exist
+   */
+  async head(key: string): Promise<R2ObjectInfo | null> {
+    const command = new HeadObjectCommand({
+      Bucket: getR2Config().bucket,
       Key: key,
     });
 
-    return getSignedUrl(r2Client, command, { expiresIn });
+    try {
+      const res = await getClient().send(command);
+      return {
+        key,
+        size: res.ContentLength ?? 0,
+        etag: res.ETag ?? null,
+        contentType: res.ContentType ?? null,
+        lastModified: res.LastModified ?? null,
+        metadata: res.Metadata ?? {},
+      };
+    } catch (err) {
+      if (isNotFoundError(err)) {
+        return null;
+      }
+      throw err;
+    }
   },
 
   /**
@@ -76,26 +510,201 @@ export const r2 = {
    */
   delete(key: string) {
     const command = new DeleteObjectCommand({
-      Bucket: bucket,
+      Bucket: getR2Config().bucket,
       Key: key,
     });
 
-    return r2Client.send(command);
+    return getClient().send(command);
   },
 
   /**
-   * List files in a prefix
+   * Delete files in batches of 1000
+   * @param keys - The file paths/keys
+   * @returns The deleted keys and the keys R2 failed to delete
+   */
+  async deleteMany(keys: string[]): Promise<R2DeleteResult> {
+    const result: R2DeleteResult = { deleted: [], errors: [] };
+    for (let i = 0; i < keys.length; i += MAX_DELETE_KEYS) {
+      const batch = keys.slice(i, i + MAX_DELETE_KEYS);
+      const command = new DeleteObjectsCommand({
+        Bucket: getR2Config().bucket,
+        // Quiet mode only reports failures
+        Delete: { Objects: batch.map((key) => ({ Key: key })), Quiet: true },
+      });
+      const res = await getClient().send(command);
+
+      const failed = new Map(
+        (res.Errors ?? []).map((error) => [
+          error.Key ?? "",
+          error.Message ?? error.Code ?? "Delete failed",
+        ])
+      );
+      for (const key of batch) {
+        const message = failed.get(key);
+        if (message) {
+          result.errors.push({ key, message });
+        } else {
+          result.deleted.push(key);
+        }
+      }
+    }
+    return result;
+  },
+
+  /**
+   * Delete every file in a prefix
+   * @param prefix - The folder prefix, e.g. "uploads/<userId>/"
+   * @throws When the prefix is empty, to never empty the whole bucket
+   */
+  async deletePrefix(prefix: string): Promise<R2DeleteResult> {
+    if (!prefix) {
+      throw new Error("deletePrefix needs a prefix");
+    }
+    const result: R2DeleteResult = { deleted: [], errors: [] };
+    const deleteBatch = async (keys: string[]) => {
+      const { deleted, errors } = await r2.deleteMany(keys);
+      result.deleted.push(...deleted);
+      result.errors.push(...errors);
+    };
+
+    let batch: string[] = [];
+    for await (const object of r2.listAll(prefix)) {
+      if (object.Key) {
+        batch.push(object.Key);
+      }
+      if (batch.length === MAX_DELETE_KEYS) {
+        await deleteBatch(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await deleteBatch(batch);
+    }
+    return result;
+  },
+
+  /**
+   * Copy a file within the bucket, keeping its content type and metadata
+   * @param sourceKey - The file to copy
+   * @param destinationKey - The new path/key, replaced if it exists
+   * @throws When the source file doesn't exist
+   */
+  async copy(sourceKey: string, destinationKey: string): Promise<void> {
+    const source = await r2.head(sourceKey);
+    if (!source) {
+      throw new Error(`File not found: ${sourceKey}`);
+    }
+    if (source.size > MAX_COPY_SIZE) {
+      await multipart.copy(sourceKey, destinationKey, source);
+      return;
+    }
+
+    const command = new CopyObjectCommand({
+      Bucket: getR2Config().bucket,
+      Key: destinationKey,
+      CopySource: toCopySource(sourceKey),
+    });
+    await getClient().send(command);
+  },
+
+  /**
+   * Move (rename) a file, R2 has no rename so it is copied then deleted
+   * @param sourceKey - The file to move
+   * @param destinationKey - The new path/key, replaced if it exists
+   */
+  async move(sourceKey: string, destinationKey: string): Promise<void> {
+    await r2.copy(sourceKey, destinationKey);
+    await r2.delete(sourceKey);
+  },
+
+  /**
+   * List every file in a prefix, following pagination
+   * Loads the whole listing in memory, iterate with `listAll` or page with
+   * `listPage` for large prefixes
+   * @param prefix - The folder prefix (optional)
+   * @param maxKeys - Stop after this many keys (default: no limit)
+   */
+  async list(
+    prefix?: string,
+    maxKeys = Number.POSITIVE_INFINITY
+  ): Promise<_Object[]> {
+    const objects: _Object[] = [];
+    for await (const object of r2.listAll(prefix)) {
+      objects.push(object);
+      // Stop before fetching a page that isn't needed
+      if (objects.length >= maxKeys) {
+        break;
+      }
+    }
+    return objects;
+  },
+
+  /**
+   * Iterate over every file in a prefix, fetching pages as needed
    * @param prefix - The folder prefix (optional)
-   * @param maxKeys - Maximum number of keys to return (default: 1000)
+   * @example
+   * for await (const object of r2.listAll("uploads/")) {
+   *   console.log(object.Key, object.Size);
+   * }
+   */
+  async *listAll(prefix?: string): AsyncGenerator<_Object> {
+    let cursor: string | null = null;
+    do {
+      const page: R2ListPage = await r2.listPage({ prefix, cursor });
+      yield* page.objects;
+      cursor = page.cursor;
+    } while (cursor);
+  },
+
+  /**
+   * List the direct children of a folder: files, and sub-folders as
+   * prefixes, following pagination
+   * @param prefix - The folder, e.g. "photos/" ("" for the bucket root)
+   * @param delimiter - The folder separator (default: "/")
+   */
+  async listFolder(
+    prefix = "",
+    delimiter = "/"
+  ): Promise<{ folders: string[]; files: _Object[] }> {
+    const folders: string[] = [];
+    const files: _Object[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: R2ListPage = await r2.listPage({ prefix, cursor, delimiter });
+      folders.push(...page.folders);
+      files.push(...page.objects);
+      cursor = page.cursor;
+    } while (cursor);
+    return { folders, files };
+  },
+
+  /**
+   * List one page of files in a prefix
+   * @returns The files, the folders when listing with a delimiter and the
+   * cursor of the next page, null on the last
    */
-  list(prefix?: string, maxKeys = 1000) {
+  async listPage({
+    prefix,
+    cursor,
+    maxKeys = 1000,
+    delimiter,
+  }: R2ListOptions = {}): Promise<R2ListPage> {
     const command = new ListObjectsV2Command({
-      Bucket: bucket,
+      Bucket: getR2Config().bucket,
       Prefix: prefix,
+      ContinuationToken: cursor ?? undefined,
       MaxKeys: maxKeys,
+      Delimiter: delimiter,
     });
 
-    return r2Client.send(command).then((res) => res.Contents ?? []);
+    const res = await getClient().send(command);
+    return {
+      objects: res.Contents ?? [],
+      folders: (res.CommonPrefixes ?? []).flatMap((folder) =>
+        folder.Prefix ? [folder.Prefix] : []
+      ),
+      cursor: res.IsTruncated ? (res.NextContinuationToken ?? null) : null,
+    };
   },
 
   /**
@@ -103,7 +712,7 @@ export const r2 = {
    * @param key - The file path/key
    */
   getPublicUrl(key: string) {
-    const endpoint = process.env.R2_PUBLIC_URL ?? process.env.R2_ENDPOINT;
-    return `${endpoint}/${bucket}/${key}`;
+    const { publicUrl, endpoint, bucket } = getR2Config();
+    return `${publicUrl ?? endpoint}/${bucket}/${key}`;
   },
 };
@@ -0,0 +1,120 @@
+import {
+  DEFAULT_LIST_LIMIT,
+  DEFAULT_URL_EXPIRES_IN,
+  readStream,
+  type StorageDriver,
+  type StorageObject,
+} from "./driver";
+import { isNotFoundError, r2 } from "./r2-client";
+
+interface S3Metadata {
+  ContentLength?: number;
+  ContentType?: string;
+  ETag?: string;
+  LastModified?: Date;
+}
+
+const toObject = (
+  key: string,
+  metadata: S3Metadata,
+  size = metadata.ContentLength ?? 0
+): StorageObject => ({
+  key,
+  size,
+  contentType: metadata.ContentType ?? null,
+  etag: metadata.ETag ?? null,
+  lastModified: metadata.LastModified ?? null,
+});
+
+// Total size from a Content-Range header, e.g. "bytes 0-99/1000"
+const totalSize = (contentRange: string | undefined) => {
+  const total = Number(contentRange?.split("/")[1]);
+  return Number.isFinite(total) ? total : undefined;
+};
+
+/**
+ * Cloudflare R2 / S3-compatible driver, built on `r2`
+ */
+export const s3Driver: StorageDriver = {
+  name: "s3",
+
+  async put(key, body, contentType) {
+    if (body instanceof ReadableStream) {
+      await r2.uploadStream(key, body, contentType);
+      return;
+    }
+    await r2.upload(key, body, contentType);
+  },
+
+  async get(key) {
+    const stored = await s3Driver.stream(key);
+    return stored
+      ? { object: stored.object, body: await readStream(stored.body) }
+      : null;
+  },
+
+  async stream(key, range) {
+    try {
+      const res = await r2.download(
+        key,
+        range ? `bytes=${range.start}-${range.end}` : undefined
+      );
+      if (!res.Body) {
+        return null;
+      }
+      return {
+        object: toObject(key, res, totalSize(res.ContentRange)),
+        body: res.Body.transformToWebStream(),
+        range: range ?? null,
+      };
+    } catch (err) {
+      if (isNotFoundError(err)) {
+        return null;
+      }
+      throw err;
+    }
+  },
+
+  async delete(key) {
+    await r2.delete(key);
+  },
+
+  async list({ prefix, cursor, limit = DEFAULT_LIST_LIMIT } = {}) {
+    const page = await r2.listPage({ prefix, cursor, maxKeys: limit });
+    return {
+      objects: page.objects.flatMap((object) =>
+        object.Key
+          ? [
+              toObject(object.Key, {
+                ContentLength: object.Size,
+                ETag: object.ETag,
+                LastModified: object.LastModified,
+              }),
+            ]
+          : []
+      ),
+      cursor: page.cursor,
+    };
+  },
+
+  signedUrl(key, options = {}) {
+    const expiresIn = options.expiresIn ?? DEFAULT_URL_EXPIRES_IN;
+    if (options.method === "PUT") {
+      return r2.getUploadUrl(key, options.contentType, expiresIn);
+    }
+    return r2.getDownloadUrl(key, expiresIn, options);
+  },
+
+  async head(key) {
+    const info = await r2.head(key);
+    return info
+      ? {
+          key,
+          size: info.size,
+          contentType: info.contentType,
+          etag: info.etag,
+          lastModified: info.lastModified,
+        }
+      : null;
+  },
+};
@@ -0,0 +1,93 @@
+import "server-only";
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { config } from "@/shared/config/public";
+import { serverConfig } from "@/shared/config/server";
+import { DEFAULT_URL_EXPIRES_IN, type SignedUrlOptions } from "./driver";
+
+/**
+ * Signed URLs of the /api/storage route
+ * Drivers without presigned URLs of their own (local, pocketbase) hand out
+ * links to the app, signed with STORAGE_SIGNING_SECRET and checked by the
+ * route before it reads or writes the object.
+ */
+
+export const STORAGE_ROUTE = "/api/storage";
+
+// Without STORAGE_SIGNING_SECRET, URLs stop working when the server restarts
+const signingSecret =
+  serverConfig.storage.signingSecret ?? randomBytes(32).toString("hex");
+
+export interface VerifiedUrl {
+  contentType: string | null;
+  contentDisposition: string | null;
+}
+
+const sign = (
+  method: string,
+  key: string,
+  expires: string,
+  { contentType, contentDisposition }: VerifiedUrl
+) =>
+  createHmac("sha256", signingSecret)
+    .update(
+      [method, key, expires, contentType ?? "", contentDisposition ?? ""].join(
+        "\n"
+      )
+    )
+    .digest("base64url");
+
+/**
+ * Create an absolute /api/storage URL for an object
+ */
+export function createSignedUrl(key: string, options: SignedUrlOptions = {}) {
+  const method = options.method ?? "GET";
+  const expiresIn = options.expiresIn ?? DEFAULT_URL_EXPIRES_IN;
+  const expires = String(Math.floor(Date.now() / 1000) + expiresIn);
+  const signed: VerifiedUrl = {
+    contentType: options.contentType ?? null,
+    contentDisposition: options.contentDisposition ?? null,
+  };
+
+  const query = new URLSearchParams({ method, expires });
+  if (signed.contentType) {
+    query.set("type", signed.contentType);
+  }
+  if (signed.contentDisposition) {
+    query.set("disposition", signed.contentDisposition);
+  }
+  query.set("signature", sign(method, key, expires, signed));
+
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  return `${config.apiUrl}${STORAGE_ROUTE}/${encodedKey}?${query}`;
+}
+
+/**
+ * Check a URL created by `createSignedUrl`
+ * @returns The signed content type and disposition, or null when the
+ * signature is invalid or expired
+ */
+export function verifySignedUrl(
+  key: string,
+  method: "GET" | "PUT",
+  searchParams: URLSearchParams
+): VerifiedUrl | null {
+  const expires = searchParams.get("expires") ?? "";
+  if (
+    searchParams.get("method") !== method ||
+    !(Number(expires) * 1000 >= Date.now())
+  ) {
+    return null;
+  }
+
+  const signed: VerifiedUrl = {
+    contentType: searchParams.get("type"),
+    contentDisposition: searchParams.get("disposition"),
+  };
+  const expected = Buffer.from(sign(method, key, expires, signed));
+  const actual = Buffer.from(searchParams.get("signature") ?? "");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return signed;
+}
@@ -0,0 +1,19 @@
+import "server-only";
+
+import { serverConfig } from "@/shared/config/server";
+import type { StorageDriver, StorageDriverName } from "./driver";
+import { localDriver } from "./local-driver";
+import { pocketbaseDriver } from "./pocketbase-driver";
+import { s3Driver } from "./s3-driver";
+
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  local: localDriver,
+  pocketbase: pocketbaseDriver,
+  s3: s3Driver,
+};
+
+/**
+ * Storage backend picked by STORAGE_DRIVER
+ * Defaults to s3 when the R2_* variables are set and to local otherwise
+ */
+export const storageDriver = drivers[serverConfig.storage.driver];
@@ -1,5 +1,23 @@
 import type { RecordModel } from "pocketbase";
-import { pbServer } from "@/shared/db/server";
+import { createServerClient, pbServer } from "@/shared/db/server";
+import type {
+  CollectionRecords,
+  Collections,
+  FileNameString,
+} from "@/shared/db/types";
+
+/**
+ * Fields of a collection record that hold files
+ * @example FileField<Collections.Users> // "avatar"
+ */
+type FileField<C extends Collections> = {
+  [K in keyof CollectionRecords[C]]-?: NonNullable<
+    CollectionRecords[C][K]
+  > extends FileNameString | FileNameString[]
+    ? K
+    : never;
+}[keyof CollectionRecords[C]] &
+  string;
 
 /**
  * Storage helpers using PocketBase file storage
@@ -7,25 +25,26 @@ import { pbServer } from "@/shared/db/server";
  */
 export const storage = {
   /**
-   * Upload a file to a PocketBase collection
+   * Upload a file to a PocketBase collection as the current user
    * @param collection - The collection name
    * @param recordId - The record ID (use "new" to create a new record)
    * @param fileField - The file field name in the collection
    * @param file - The file to upload
    */
-  uploadFile(
-    collection: string,
+  async uploadFile<C extends Collections>(
+    collection: C,
     recordId: string,
-    fileField: string,
+    fileField: FileField<C>,
     file: File
   ) {
+    const pb = await createServerClient();
     const formData = new FormData();
     formData.append(fileField, file);
 
     if (recordId === "new") {
-      return pbServer.collection(collection).create(formData);
+      return pb.collection(collection).create(formData);
     }
-    return pbServer.collection(collection).update(recordId, formData);
+    return pb.collection(collection).update(recordId, formData);
   },
 
   /**
@@ -69,13 +88,18 @@ export const storage = {
   },
 
   /**
-   * Delete a file by clearing the file field
+   * Delete a file by clearing the file field as the current user
    * @param collection - The collection name
    * @param recordId - The record ID
    * @param fileField - The file field name
    */
-  deleteFile(collection: string, recordId: string, fileField: string) {
-    return pbServer.collection(collection).update(recordId, {
+  async deleteFile<C extends Collections>(
+    collection: C,
+    recordId: string,
+    fileField: FileField<C>
+  ) {
+    const pb = await createServerClient();
+    return pb.collection(collection).update(recordId, {
       [fileField]: null,
     });
   },
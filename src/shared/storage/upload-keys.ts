@@ -0,0 +1,28 @@
+/**
+ * Object keys of user uploads: uploads/<userId>/<uuid>/<filename>
+ * Routes serving or finishing an upload check the user ID prefix
+ */
+
+const UPLOADS_PREFIX = "uploads";
+
+export const getUserUploadPrefix = (userId: string) =>
+  `${UPLOADS_PREFIX}/${userId}/`;
+
+/**
+ * Create a unique key for a file of the user, keeping a readable name
+ */
+export function createUploadKey(userId: string, filename: string) {
+  const name =
+    filename
+      .normalize("NFKD")
+      .replace(/[^\w.-]+/g, "-")
+      .replace(/^[-.]+|-+$/g, "")
+      .slice(-100) || "file";
+  return `${getUserUploadPrefix(userId)}${crypto.randomUUID()}/${name}`;
+}
+
+/**
+ * Whether a key was created by `createUploadKey` for this user
+ */
+export const isOwnUploadKey = (userId: string, key: string) =>
+  key.startsWith(getUserUploadPrefix(userId)) && !key.includes("..");
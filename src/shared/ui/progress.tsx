@@ -0,0 +1,30 @@
+"use client";
+
+import { Progress as ProgressPrimitive } from "radix-ui";
+import type * as React from "react";
+import { cn } from "@/shared/lib/utils";
+
+function Progress({
+  className,
+  value,
+  ...props
+}: React.ComponentProps<typeof ProgressPrimitive.Root>) {
+  return (
+    <ProgressPrimitive.Root
+      className={cn(
+        "relative h-1.5 w-full overflow-hidden rounded-full bg-muted",
+        className
+      )}
+      data-slot="progress"
+      {...props}
+    >
+      <ProgressPrimitive.Indicator
+        className="size-full flex-1 bg-primary transition-all"
+        data-slot="progress-indicator"
+        style={{ transform: `translateX(-${100 - (value || 0)}%)` }}
+      />
+    </ProgressPrimitive.Root>
+  );
+}
+
+export { Progress };
@@ -0,0 +1,64 @@
+import { hasRole } from "@/shared/auth/permissions";
+import { getCurrentUser } from "@/shared/auth/server";
+import {
+  type AdminAuthState,
+  getAdminAuthState,
+  type AdminAuthStatus as Status,
+} from "@/shared/db/admin";
+import { UsersRoleOptions } from "@/shared/db/types";
+import { cn } from "@/shared/lib/utils";
+
+const statusStyles: Record<Status, { label: string; dot: string }> = {
+  unconfigured: { label: "not configured", dot: "bg-zinc-400" },
+  pending: { label: "signing in", dot: "animate-pulse bg-zinc-400" },
+  authenticated: { label: "ok", dot: "bg-green-500" },
+  expired: { label: "token expired", dot: "bg-red-500" },
+  failed: { label: "error", dot: "bg-red-500" },
+};
+
+const publicStyles = {
+  ok: { label: "ok", dot: "bg-green-500" },
+  error: { label: "error", dot: "bg-red-500" },
+};
+
+const getDetails = ({ method, expiresAt, error }: AdminAuthState) =>
+  error ??
+  (expiresAt
+    ? `${method} auth, expires ${expiresAt.toISOString()}`
+    : undefined);
+
+/**
+ * Superuser auth state of pbAdmin
+ * Signs in on first render when email/password are configured. Visitors
+ * only see ok or error, admins also see the status, auth method and token
+ * expiry. Failures are logged on the server by pbAdmin.
+ */
+export async function AdminAuthStatus() {
+  const [state, user] = await Promise.all([
+    getAdminAuthState(),
+    getCurrentUser(),
+  ]);
+  const isAdmin = hasRole(user, UsersRoleOptions.admin);
+  const { label, dot } = isAdmin
+    ? statusStyles[state.status]
+    : publicStyles[state.status === "authenticated" ? "ok" : "error"];
+
+  return (
+    <div
+      className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400"
+      title={isAdmin ? getDetails(state) : undefined}
+    >
+      <span className={cn("h-2 w-2 rounded-full", dot)} />
+      Admin: {label}
+    </div>
+  );
+}
+
+export function AdminAuthStatusSkeleton() {
+  return (
+    <div className="flex items-center gap-2 text-sm text-zinc-500">
+      <span className="h-2 w-2 animate-pulse rounded-full bg-zinc-400" />
+      Admin: checking
+    </div>
+  );
+}
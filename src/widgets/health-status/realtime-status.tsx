@@ -0,0 +1,31 @@
+"use client";
+
+import {
+  type RealtimeStatus as Status,
+  useRealtimeStatus,
+} from "@/shared/api/realtime-connection";
+import { cn } from "@/shared/lib/utils";
+
+const statusStyles: Record<Status, { label: string; dot: string }> = {
+  idle: { label: "idle", dot: "bg-zinc-400" },
+  connecting: { label: "connecting", dot: "animate-pulse bg-zinc-400" },
+  connected: { label: "live", dot: "bg-green-500" },
+  reconnecting: { label: "reconnecting", dot: "animate-pulse bg-amber-500" },
+};
+
+/**
+ * Connection state of the PocketBase realtime stream
+ * Idle until a component subscribes with useRealtimeCollection, such as
+ * FilesList on /files
+ */
+export function RealtimeStatus() {
+  const status = useRealtimeStatus();
+  const { label, dot } = statusStyles[status];
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+      <span className={cn("h-2 w-2 rounded-full", dot)} />
+      Realtime: {label}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { cookies } from "next/headers";
 import Link from "next/link";
-import PocketBase from "pocketbase";
+import { getCurrentUser } from "@/shared/auth/server";
+import { UserAvatar } from "@/shared/auth/user-avatar";
 import { Button } from "@/shared/ui/button";
 
 /**
@@ -11,18 +11,7 @@ export async function UserInfoContent() {
   // Simulate slight delay to show streaming
   await new Promise((resolve) => setTimeout(resolve, 500));
 
-  const cookieStore = await cookies();
-  const pb = new PocketBase(
-    process.env.POCKETBASE_URL ?? "http://127.0.0.1:8080"
-  );
-
-  // Load auth from cookie
-  const authCookie = cookieStore.get("pb_auth");
-  if (authCookie?.value) {
-    pb.authStore.loadFromCookie(`pb_auth=${authCookie.value}`);
-  }
-
-  const user = pb.authStore.isValid ? pb.authStore.record : null;
+  const user = await getCurrentUser();
 
   if (!user) {
     return (
@@ -45,15 +34,13 @@ export async function UserInfoContent() {
   return (
     <div className="flex flex-col gap-3 rounded-lg border border-zinc-200 bg-zinc-50 p-6 dark:border-zinc-800 dark:bg-zinc-900">
       <div className="flex items-center gap-3">
-        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-zinc-200 font-medium text-zinc-700 dark:bg-zinc-700 dark:text-zinc-200">
-          {(user.name as string)?.charAt(0).toUpperCase() ?? "?"}
-        </div>
+        <UserAvatar user={user} />
         <div>
           <p className="font-medium text-zinc-900 dark:text-zinc-100">
-            {user.name as string}
+            {user.name}
           </p>
           <p className="text-sm text-zinc-500 dark:text-zinc-400">
-            {user.email as string}
+            {user.email}
           </p>
         </div>
       </div>
@@ -3,7 +3,11 @@
 import { useQueryClient } from "@tanstack/react-query";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { signOut } from "@/shared/auth/client";
+import { ResendVerification } from "@/features/auth/resend-verification";
+import { OrganizationSwitcher } from "@/features/organizations/organization-switcher";
+import { signOut } from "@/shared/auth/actions";
+import { sessionQueryKey } from "@/shared/auth/client";
+import { UserAvatar } from "@/shared/auth/user-avatar";
 import { useAuth } from "@/shared/providers/auth-provider";
 import { Button } from "@/shared/ui/button";
 
@@ -35,22 +39,29 @@ export function UserMenu() {
     );
   }
 
-  const handleSignOut = () => {
-    signOut();
-    queryClient.invalidateQueries({ queryKey: ["me"] });
+  const handleSignOut = async () => {
+    await signOut();
+    queryClient.setQueryData(sessionQueryKey, null);
     router.refresh();
   };
 
   return (
     <div className="flex items-center gap-3">
+      <UserAvatar className="size-8" user={user} />
       <div className="text-right">
         <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100">
-          {user.name as string}
-        </p>
-        <p className="text-xs text-zinc-500 dark:text-zinc-400">
-          {user.email as string}
+          {user.name}
         </p>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">{user.email}</p>
+        {!user.verified && <ResendVerification email={user.email} />}
       </div>
+      <OrganizationSwitcher />
+      <Button asChild size="sm" variant="ghost">
+        <Link href="/files">Files</Link>
+      </Button>
+      <Button asChild size="sm" variant="ghost">
+        <Link href="/account">Account</Link>
+      </Button>
       <Button onClick={handleSignOut} size="sm" variant="outline">
         Sign out
       </Button>